@@ -0,0 +1,157 @@
+#!/usr/bin/env node
+// rough-echarts render option.json --out chart.svg --seed 42 --width 800 --height 400
+//
+// Renders an ECharts option file to a hand-drawn SVG (or PNG) without a
+// browser. It runs the server side renderer built by `npm run build:ssr`.
+import { readFile, writeFile } from 'node:fs/promises'
+import { fileURLToPath } from 'node:url'
+import { parseArgs } from 'node:util'
+
+const USAGE = `Usage: rough-echarts render <option.json> [options]
+
+Options:
+  --out <file>          Output file, .svg or .png (default: SVG to stdout)
+  --seed <n>            Base seed of the sketch (default: 1)
+  --width <px>          Chart width (default: 800)
+  --height <px>         Chart height (default: 600)
+  --theme <name|file>   Built-in theme name or theme JSON file
+  --rough <file>        JSON file with painter-wide Rough.js options
+  --font <family>       Default font family of the chart text
+  --preset <name>       Named look: pencil, marker, crayon, chalkboard,
+                        blueprint or watercolor
+  --paper <type>        Paper background: plain, ruled, graph, grain or torn
+  --pixel-ratio <n>     Scale of PNG output (default: 2)
+  -h, --help            Show this help`
+
+const SSR_BUNDLE = new URL('../dist-ssr/ssr.js', import.meta.url)
+
+function fail(message) {
+  console.error('rough-echarts: ' + message)
+  process.exit(1)
+}
+
+function toNumber(value, name) {
+  if (value == null) {
+    return undefined
+  }
+  const num = Number(value)
+  if (!isFinite(num)) {
+    fail(`--${name} expects a number, got "${value}"`)
+  }
+  return num
+}
+
+async function readJSON(file) {
+  const text = file === '-' ? await readStdin() : await readFile(file, 'utf8')
+  try {
+    return JSON.parse(text)
+  }
+  catch (e) {
+    fail(`${file === '-' ? 'stdin' : file} is not valid JSON: ${e.message}`)
+  }
+}
+
+async function readStdin() {
+  let text = ''
+  process.stdin.setEncoding('utf8')
+  for await (const chunk of process.stdin) {
+    text += chunk
+  }
+  return text
+}
+
+async function loadRenderer() {
+  try {
+    return await import(SSR_BUNDLE.href)
+  }
+  catch {
+    fail(`${fileURLToPath(SSR_BUNDLE)} not found, run "npm run build:ssr" first`)
+  }
+}
+
+// PNG needs a rasterizer, which is an optional dependency
+async function svgToPNG(svg, pixelRatio) {
+  let resvg
+  try {
+    resvg = await import('@resvg/resvg-js')
+  }
+  catch {
+    fail('PNG output needs @resvg/resvg-js, install it with "npm install @resvg/resvg-js"')
+  }
+  const renderer = new resvg.Resvg(svg, {
+    fitTo: { mode: 'zoom', value: pixelRatio },
+    font: { loadSystemFonts: true },
+  })
+  return renderer.render().asPng()
+}
+
+async function render(args) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o' },
+      seed: { type: 'string' },
+      width: { type: 'string' },
+      height: { type: 'string' },
+      theme: { type: 'string' },
+      rough: { type: 'string' },
+      font: { type: 'string' },
+      preset: { type: 'string' },
+      paper: { type: 'string' },
+      'pixel-ratio': { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+  if (values.help) {
+    console.log(USAGE)
+    return
+  }
+  if (positionals.length !== 1) {
+    fail('expects exactly one option file\n\n' + USAGE)
+  }
+
+  const option = await readJSON(positionals[0])
+  let theme = values.theme
+  if (theme && theme.endsWith('.json')) {
+    theme = await readJSON(theme)
+  }
+  const { renderToSVGString } = await loadRenderer()
+  const svg = renderToSVGString(option, {
+    width: toNumber(values.width, 'width'),
+    height: toNumber(values.height, 'height'),
+    seed: toNumber(values.seed, 'seed'),
+    theme,
+    rough: values.rough ? await readJSON(values.rough) : undefined,
+    font: values.font,
+    preset: values.preset,
+    paper: values.paper,
+  })
+
+  const out = values.out
+  if (!out) {
+    process.stdout.write(svg + '\n')
+  }
+  else if (out.toLowerCase().endsWith('.png')) {
+    await writeFile(out, await svgToPNG(svg, toNumber(values['pixel-ratio'], 'pixel-ratio') || 2))
+  }
+  else {
+    await writeFile(out, svg)
+  }
+}
+
+const [command, ...args] = process.argv.slice(2)
+if (!command || command === '-h' || command === '--help') {
+  console.log(USAGE)
+}
+else if (command === 'render') {
+  try {
+    await render(args)
+  }
+  catch (e) {
+    fail(e.message)
+  }
+}
+else {
+  fail(`unknown command "${command}"\n\n` + USAGE)
+}
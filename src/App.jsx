@@ -1,9 +1,13 @@
-import './rough/index';
-import ReactECharts from 'echarts-for-react';
+import * as echarts from 'echarts';
+import ReactEChartsCore from 'echarts-for-react/lib/core';
+import { init } from './rough/index';
 
-const OPTS = { renderer: 'rough' };
+// echarts.init drops the rough options, the rough init applies them
+const ROUGH_ECHARTS = { ...echarts, init };
 
-const FONT = { fontFamily: 'Caveat, cursive', fontSize: 20 };
+const OPTS = { renderer: 'rough', font: { family: 'Caveat', fallback: 'cursive' } };
+
+const FONT = { fontSize: 20 };
 
 // ── Weekly bar chart ──────────────────────────────────────────────────────────
 const barOption = {
@@ -114,7 +118,6 @@ const gaugeOption = {
         color: '#333',
         distance: 8,
         fontSize: 18,
-        fontFamily: 'Caveat, cursive',
         formatter: (v) => v + 'k',
       },
       detail: {
@@ -122,7 +125,6 @@ const gaugeOption = {
         formatter: '{value}k RPM',
         color: '#333',
         fontSize: 24,
-        fontFamily: 'Caveat, cursive',
         offsetCenter: [0, '70%'],
       },
       data: [{ value: 3.6, name: 'RPM' }],
@@ -156,11 +158,11 @@ const hbarOption = {
 export default function App() {
   return (
     <div style={{ padding: '2rem', display: 'flex', flexDirection: 'column', gap: '2rem' }}>
-      <ReactECharts option={barOption}        style={{ height: '320px' }} opts={OPTS} />
-      <ReactECharts option={groupedBarOption} style={{ height: '320px' }} opts={OPTS} />
-      <ReactECharts option={lineOption}       style={{ height: '320px' }} opts={OPTS} />
-      <ReactECharts option={hbarOption}       style={{ height: '640px' }} opts={OPTS} />
-      <ReactECharts option={gaugeOption}      style={{ height: '400px' }} opts={OPTS} />
+      <ReactEChartsCore echarts={ROUGH_ECHARTS} option={barOption}        style={{ height: '320px' }} opts={OPTS} />
+      <ReactEChartsCore echarts={ROUGH_ECHARTS} option={groupedBarOption} style={{ height: '320px' }} opts={OPTS} />
+      <ReactEChartsCore echarts={ROUGH_ECHARTS} option={lineOption}       style={{ height: '320px' }} opts={OPTS} />
+      <ReactEChartsCore echarts={ROUGH_ECHARTS} option={hbarOption}       style={{ height: '640px' }} opts={OPTS} />
+      <ReactEChartsCore echarts={ROUGH_ECHARTS} option={gaugeOption}      style={{ height: '400px' }} opts={OPTS} />
     </div>
   );
 }
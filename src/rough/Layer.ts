@@ -1,22 +1,25 @@
 import * as util from 'zrender/lib/core/util';
 import {devicePixelRatio} from 'zrender/lib/config';
-import { ImagePatternObject } from 'zrender/lib/graphic/Pattern';
 import RPainter from './Painter';
-import { GradientObject, InnerGradientObject } from 'zrender/lib/graphic/Gradient';
+import { InnerGradientObject } from 'zrender/lib/graphic/Gradient';
 import { ZRCanvasRenderingContext } from 'zrender/lib/core/types';
 import Eventful from 'zrender/lib/core/Eventful';
 import { ElementEventCallback } from 'zrender/lib/Element';
 import { getCanvasGradient } from './helper';
-import { createCanvasPattern } from './graphic';
+import { createCanvasPattern, getRoughPaintRect, RoughScope } from './graphic';
 import Displayable from 'zrender/lib/graphic/Displayable';
 import BoundingRect from 'zrender/lib/core/BoundingRect';
 import { REDRAW_BIT } from 'zrender/lib/graphic/constants';
 import { platformApi } from 'zrender/lib/core/platform';
+import { RoughLodOption } from './roughConfig';
+import { getPaperCanvas, isPaperObject, RoughBackground } from './paper';
 
 export interface LayerConfig {
-    clearColor?: string | GradientObject | ImagePatternObject
+    clearColor?: RoughBackground
     motionBlur?: boolean
     lastFrameAlpha?: number
+    // Level-of-detail budget of the layer, see RoughPainterOption
+    lod?: RoughLodOption
 };
 
 function createDom(id: string, painter: RPainter, dpr: number) {
@@ -53,7 +56,7 @@ export default class Layer extends Eventful {
 
     painter: RPainter
 
-    clearColor: string | GradientObject | ImagePatternObject
+    clearColor: RoughBackground
     motionBlur = false
     lastFrameAlpha = 0.7
     dpr = 1
@@ -68,6 +71,8 @@ export default class Layer extends Eventful {
 
     maxRepaintRectCount = 5
 
+    lod: RoughLodOption
+
     private _paintRects: BoundingRect[]
 
     __dirty = true
@@ -76,6 +81,9 @@ export default class Layer extends Eventful {
     __used = false
 
     __drawIndex = 0
+    // Where a time sliced layer continues in the next frame, -1 when done.
+    // Refreshes set unfinished ones to 0, which paints them from the start.
+    __sliceIndex = -1
     __startIndex = 0
     __endIndex = 0
 
@@ -146,7 +154,8 @@ export default class Layer extends Eventful {
         displayList: Displayable[],
         prevList: Displayable[],
         viewWidth: number,
-        viewHeight: number
+        viewHeight: number,
+        roughScope: RoughScope
     ) {
         if (this.__firstTimePaint) {
             this.__firstTimePaint = false;
@@ -225,7 +234,7 @@ export default class Layer extends Eventful {
                 }
 
                 const curRect = shouldPaint && ((el.__dirty & REDRAW_BIT) || !el.__isRendered)
-                    ? el.getPaintRect()
+                    ? getRoughPaintRect(el, roughScope)
                     : null;
                 if (curRect) {
                     addRectToMergePool(curRect);
@@ -302,7 +311,7 @@ export default class Layer extends Eventful {
 
     clear(
         clearAll?: boolean,
-        clearColor?: string | GradientObject | ImagePatternObject,
+        clearColor?: RoughBackground,
         repaintRects?: BoundingRect[]
     ) {
         const dom = this.dom;
@@ -334,7 +343,12 @@ export default class Layer extends Eventful {
 
         function doClear(x: number, y: number, width: number, height: number) {
             ctx.clearRect(x, y, width, height);
-            if (clearColor && clearColor !== 'transparent') {
+            if (isPaperObject(clearColor)) {
+                // Drawn once per size, copied on every clear
+                const paper = getPaperCanvas(clearColor, dom.width / dpr, dom.height / dpr, dpr);
+                ctx.drawImage(paper, x, y, width, height, x, y, width, height);
+            }
+            else if (clearColor && clearColor !== 'transparent') {
                 let clearColorGradientOrPattern;
                 if (util.isGradientObject(clearColor)) {
                     const shouldCache = clearColor.global || (
@@ -395,7 +409,7 @@ export default class Layer extends Eventful {
         }
     }
 
-    refresh: (clearColor?: string | GradientObject | ImagePatternObject) => void
+    refresh: (clearColor?: RoughBackground) => void
 
     renderToCanvas: (ctx: CanvasRenderingContext2D) => void
 
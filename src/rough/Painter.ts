@@ -5,15 +5,16 @@ import requestAnimationFrame from 'zrender/lib/animation/requestAnimationFrame';
 import env from 'zrender/lib/core/env';
 import Displayable from 'zrender/lib/graphic/Displayable';
 import { WXCanvasRenderingContext } from 'zrender/lib/core/types';
-import { GradientObject } from 'zrender/lib/graphic/Gradient';
-import { ImagePatternObject } from 'zrender/lib/graphic/Pattern';
 import Storage from 'zrender/lib/Storage';
-import { brush, BrushScope, brushSingle } from './graphic';
+import { brush, BrushScope, brushSingle, getRoughPaintRect, getSketchShapeCount } from './graphic';
 import { PainterBase } from 'zrender/lib/PainterBase';
 import BoundingRect from 'zrender/lib/core/BoundingRect';
 import { REDRAW_BIT } from 'zrender/lib/graphic/constants';
 import { getSize } from './helper';
 import type IncrementalDisplayable from 'zrender/lib/graphic/IncrementalDisplayable';
+import type { RoughBackground } from './paper';
+import { getLodMode, RoughLodMode } from './roughConfig';
+import RoughPainterOptions, { RoughPainterOption } from './painterOptions';
 
 const HOVER_LAYER_ZLEVEL = 1e5;
 const CANVAS_ZLEVEL = 314159;
@@ -55,7 +56,7 @@ function createRoot(width: number, height: number) {
     return domRoot;
 }
 
-interface RPainterOption {
+interface RPainterOption extends RoughPainterOption {
     devicePixelRatio?: number
     width?: number | string
     height?: number | string,
@@ -64,7 +65,9 @@ interface RPainterOption {
 
 export default class RPainter implements PainterBase {
 
-    type = 'rough'
+    // What ECharts checks before `renderToCanvas` (used by `getDataURL` and
+    // the toolbox `saveAsImage`). `getType()` still tells the renderer apart.
+    type = 'canvas'
 
     root: HTMLElement
 
@@ -95,12 +98,18 @@ export default class RPainter implements PainterBase {
 
     private _redrawId: number
 
-    private _backgroundColor: string | GradientObject | ImagePatternObject
+    private _backgroundColor: RoughBackground
+
+    private _roughOptions: RoughPainterOptions
 
 
     constructor(root: HTMLElement, storage: Storage, opts: RPainterOption, id: number) {
 
-        this.type = 'rough';
+        if (!root) {
+            // Server side rendering (`ssr: true`) creates painters without a
+            // DOM; canvas layers need one.
+            throw new Error('The rough painter needs a DOM element, use the \'rough-svg\' renderer without one.');
+        }
 
         const singleCanvas = !root.nodeName
             || root.nodeName.toUpperCase() === 'CANVAS';
@@ -108,6 +117,8 @@ export default class RPainter implements PainterBase {
         this._opts = opts = util.extend({}, opts || {}) as RPainterOption;
 
         this.dpr = opts.devicePixelRatio || devicePixelRatio;
+        // Each frame of the wiggle changes every sketch, so all layers repaint
+        this._roughOptions = new RoughPainterOptions(root, opts, () => this._repaintAll());
         this._singleCanvas = singleCanvas;
         this.root = root;
 
@@ -171,6 +182,28 @@ export default class RPainter implements PainterBase {
         return 'rough';
     }
 
+    getSeed() {
+        return this._roughOptions.seed;
+    }
+
+    setSeed(seed: number) {
+        this.configure({ seed });
+    }
+
+    configure(opts: RoughPainterOption) {
+        const roughOptions = this._roughOptions;
+        roughOptions.configure(opts) && this.setBackgroundColor(roughOptions.chartBackgroundColor);
+        this._repaintAll();
+    }
+
+    // Every sketch may change, dirty rects would only cover the dirty elements
+    private _repaintAll() {
+        util.each(this._layers, layer => {
+            layer.setUnpainted();
+        });
+        this.refresh(true);
+    }
+
     isSingleCanvas() {
         return this._singleCanvas;
     }
@@ -197,9 +230,14 @@ export default class RPainter implements PainterBase {
 
         this._redrawId = Math.random();
 
-        // Always repaint all layers — roughjs redraws from scratch every time,
-        // so dirty-layer skipping only causes elements to be missed.
-        this._paintList(list, prevList, true, this._redrawId);
+        // A new redraw starts unfinished sliced layers over, even when none
+        // of their elements changed: the pending frame is dropped, and the
+        // layer would otherwise be left half painted
+        this.eachBuiltinLayer(function (layer) {
+            layer.__sliceIndex >= 0 && (layer.__sliceIndex = 0);
+        });
+
+        this._paintList(list, prevList, paintAll, this._redrawId);
 
         for (let i = 0; i < zlevelList.length; i++) {
             const z = zlevelList[i];
@@ -231,11 +269,7 @@ export default class RPainter implements PainterBase {
             return;
         }
 
-        const scope: BrushScope = {
-            inHover: true,
-            viewWidth: this._width,
-            viewHeight: this._height
-        };
+        const scope = this._createBrushScope(true);
 
         let ctx;
         for (let i = 0; i < len; i++) {
@@ -263,7 +297,19 @@ export default class RPainter implements PainterBase {
     }
 
     paintOne(ctx: CanvasRenderingContext2D, el: Displayable) {
-        brushSingle(ctx, el);
+        brushSingle(ctx, el, this._createBrushScope(false));
+    }
+
+    private _createBrushScope(inHover: boolean): BrushScope {
+        const scope: BrushScope = {
+            inHover,
+            allClipped: false,
+            prevEl: null,
+            viewWidth: this._width,
+            viewHeight: this._height
+        };
+        this._roughOptions.setScope(scope);
+        return scope;
     }
 
     private _paintList(list: Displayable[], prevList: Displayable[], paintAll: boolean, redrawId?: number) {
@@ -325,7 +371,7 @@ export default class RPainter implements PainterBase {
             const layer = this._layers[zlevel];
             if (layer.__builtin__
                 && layer !== this._hoverlayer
-                && (layer.__dirty || paintAll)
+                && (layer.__dirty || paintAll || layer.__sliceIndex >= 0)
             ) {
                 layerList.push(layer);
             }
@@ -339,11 +385,20 @@ export default class RPainter implements PainterBase {
             const ctx = layer.ctx;
 
             const repaintRects = useDirtyRect
-                && layer.createRepaintRects(list, prevList, this._width, this._height);
+                && layer.createRepaintRects(list, prevList, this._width, this._height, this._createBrushScope(false));
 
             let start = paintAll ? layer.__startIndex : layer.__drawIndex;
 
-            const useTimer = !paintAll && layer.incremental && Date.now;
+            const lod = this._getLayerLod(layer, list);
+            // Layers over their budget are time sliced like incremental ones,
+            // continuing in the next frame where this one stopped. Dirty rects
+            // would be recomputed from what is left and erase what was drawn.
+            const sliced = lod !== 'rough' && !layer.incremental && !useDirtyRect;
+            if (sliced && layer.__sliceIndex > start) {
+                start = layer.__sliceIndex;
+            }
+
+            const useTimer = !paintAll && (layer.incremental || sliced) && Date.now;
             const startTime = useTimer && Date.now();
 
             const clearColor = layer.zlevel === this._zlevelList[0]
@@ -365,13 +420,8 @@ export default class RPainter implements PainterBase {
             let i: number;
             /* eslint-disable-next-line */
             const repaint = (repaintRect?: BoundingRect) => {
-                const scope: BrushScope = {
-                    inHover: false,
-                    allClipped: false,
-                    prevEl: null,
-                    viewWidth: this._width,
-                    viewHeight: this._height
-                };
+                const scope = this._createBrushScope(false);
+                scope.lod = lod;
 
                 for (i = start; i < layer.__endIndex; i++) {
                     const el = list[i];
@@ -426,6 +476,7 @@ export default class RPainter implements PainterBase {
             }
 
             layer.__drawIndex = i;
+            layer.__sliceIndex = sliced && i < layer.__endIndex ? i : -1;
 
             if (layer.__drawIndex < layer.__endIndex) {
                 finished = false;
@@ -446,6 +497,16 @@ export default class RPainter implements PainterBase {
         };
     }
 
+    // Level of detail of a layer, from its own budget or the painter one
+    private _getLayerLod(layer: Layer, list: Displayable[]): RoughLodMode {
+        const lod = layer.lod || this._opts.lod;
+        let shapeCount = 0;
+        for (let i = layer.__startIndex; i < layer.__endIndex; i++) {
+            shapeCount += getSketchShapeCount(list[i]);
+        }
+        return getLodMode(lod, shapeCount);
+    }
+
     private _doPaintEl(
         el: Displayable,
         currentLayer: Layer,
@@ -456,7 +517,7 @@ export default class RPainter implements PainterBase {
     ) {
         const ctx = currentLayer.ctx;
         if (useDirtyRect) {
-            const paintRect = el.getPaintRect();
+            const paintRect = getRoughPaintRect(el, scope);
             if (!repaintRect || paintRect && paintRect.intersect(repaintRect)) {
                 brush(ctx, el, scope, isLast);
                 el.setPrevPaintRect(paintRect);
@@ -694,8 +755,8 @@ export default class RPainter implements PainterBase {
         layer.clear();
     }
 
-    setBackgroundColor(backgroundColor: string | GradientObject | ImagePatternObject) {
-        this._backgroundColor = backgroundColor;
+    setBackgroundColor(backgroundColor: RoughBackground) {
+        this._backgroundColor = this._roughOptions.getBackground(backgroundColor);
 
         util.each(this._layers, layer => {
             layer.setUnpainted();
@@ -790,6 +851,7 @@ export default class RPainter implements PainterBase {
     }
 
     dispose() {
+        this._roughOptions.dispose();
         this.root.innerHTML = '';
 
         this.root =
@@ -799,24 +861,35 @@ export default class RPainter implements PainterBase {
         this._layers = null;
     }
 
+    /**
+     * The whole chart on one canvas, at any pixel ratio. Pending changes are
+     * painted first, so the export redraws the on-screen sketches: same
+     * element seeds, same cached drawables and same level of detail.
+     */
     getRenderedCanvas(opts?: {
-        backgroundColor?: string | GradientObject | ImagePatternObject
+        backgroundColor?: RoughBackground
         pixelRatio?: number
     }) {
         opts = opts || {};
-        if (this._singleCanvas && !this._compositeManually) {
+        const pixelRatio = opts.pixelRatio || this.dpr;
+        // Layers painted across frames are finished right away
+        let slicing = false;
+        this.eachBuiltinLayer(function (layer) {
+            layer.__sliceIndex >= 0 && (slicing = true);
+        });
+        this.refresh(slicing);
+
+        if (this._singleCanvas && !this._needsManuallyCompositing && pixelRatio === this.dpr) {
             return this._layers[CANVAS_ZLEVEL].dom;
         }
 
-        const imageLayer = new Layer('image', this, opts.pixelRatio || this.dpr);
+        const imageLayer = new Layer('image', this, pixelRatio);
         imageLayer.initContext();
-        imageLayer.clear(false, opts.backgroundColor || this._backgroundColor);
+        imageLayer.clear(false, this._roughOptions.getExportBackground(opts.backgroundColor));
 
         const ctx = imageLayer.ctx;
 
-        if (opts.pixelRatio <= this.dpr) {
-            this.refresh();
-
+        if (pixelRatio <= this.dpr) {
             const width = imageLayer.dom.width;
             const height = imageLayer.dom.height;
             this.eachLayer(function (layer) {
@@ -831,21 +904,38 @@ export default class RPainter implements PainterBase {
             });
         }
         else {
-            const scope = {
-                inHover: false,
-                viewWidth: this._width,
-                viewHeight: this._height
-            };
-            const displayList = this.storage.getDisplayList(true);
-            for (let i = 0, len = displayList.length; i < len; i++) {
-                const el = displayList[i];
-                brush(ctx, el, scope, i === len - 1);
-            }
+            // Sharper than the screen: brushed again at the export resolution
+            const list = this.storage.getDisplayList(true);
+            this.eachBuiltinLayer(function (layer) {
+                if (layer === this._hoverlayer) {
+                    return;
+                }
+                const scope = this._createBrushScope(false);
+                scope.lod = this._getLayerLod(layer, list);
+                for (let i = layer.__startIndex; i < layer.__endIndex; i++) {
+                    brush(ctx, list[i], scope, i === layer.__endIndex - 1);
+                }
+                if (scope.prevElClipPaths) {
+                    ctx.restore();
+                }
+            }, this);
         }
 
         return imageLayer.dom;
     }
 
+    /**
+     * The chart as an image data URL, see getRenderedCanvas.
+     */
+    toDataURL(opts?: {
+        type?: 'png' | 'jpeg'
+        backgroundColor?: RoughBackground
+        pixelRatio?: number
+    }) {
+        opts = opts || {};
+        return this.getRenderedCanvas(opts).toDataURL('image/' + (opts.type || 'png'));
+    }
+
     getWidth() {
         return this._width;
     }
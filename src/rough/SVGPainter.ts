@@ -0,0 +1,155 @@
+import SVGPainter from 'zrender/lib/svg/Painter';
+import Storage from 'zrender/lib/Storage';
+import Displayable from 'zrender/lib/graphic/Displayable';
+import Path from 'zrender/lib/graphic/Path';
+import { createBrushScope, createVNode, SVGVNode, BrushScope as ZRSVGBrushScope } from 'zrender/lib/svg/core';
+import { setClipPath } from 'zrender/lib/svg/graphic';
+import * as util from 'zrender/lib/core/util';
+import { brushRoughSVG, SVGBrushScope } from './svgGraphic';
+import { getSketchShapeCount, isRevealClip } from './graphic';
+import { getLodMode } from './roughConfig';
+import { createPaperVNode, isPaperObject, RoughBackground, RoughPaperOption } from './paper';
+import RoughPainterOptions, { RoughPainterOption } from './painterOptions';
+
+interface RSVGPainterOption extends RoughPainterOption {
+    width?: number
+    height?: number
+    ssr?: boolean
+}
+
+/**
+ * The `'rough-svg'` renderer: zrender's SVG painter (virtual DOM, patching,
+ * `renderToString` for server side rendering) with paths sketched by
+ * Rough.js. It reports itself as `'svg'`, so ECharts treats it as the SVG
+ * renderer: decals are made as SVG patterns, `renderToSVGString` and the
+ * toolbox export SVG.
+ */
+export default class RSVGPainter extends SVGPainter {
+
+    private _roughOpts: RSVGPainterOption
+
+    private _roughOptions: RoughPainterOptions
+
+    // Drawn under the chart instead of zrender's background rect
+    private _paperBackground: RoughPaperOption
+
+    constructor(root: HTMLElement, storage: Storage, opts: RSVGPainterOption) {
+        super(root, storage, opts);
+        this._roughOpts = util.extend({}, opts || {});
+        this._roughOptions = new RoughPainterOptions(root, this._roughOpts, () => this.refresh());
+    }
+
+    getSeed() {
+        return this._roughOptions.seed;
+    }
+
+    setSeed(seed: number) {
+        this.configure({ seed });
+    }
+
+    configure(opts: RoughPainterOption) {
+        const roughOptions = this._roughOptions;
+        roughOptions.configure(opts) && this.setBackgroundColor(roughOptions.chartBackgroundColor);
+        this.refresh();
+    }
+
+    dispose() {
+        this._roughOptions.dispose();
+        super.dispose();
+    }
+
+    setBackgroundColor(backgroundColor: RoughBackground) {
+        const background = this._roughOptions.getBackground(backgroundColor);
+        if (isPaperObject(background)) {
+            this._paperBackground = background;
+            super.setBackgroundColor('none');
+        }
+        else {
+            this._paperBackground = null;
+            super.setBackgroundColor(background);
+        }
+    }
+
+    renderToVNode(opts?: Parameters<SVGPainter['renderToVNode']>[0]) {
+        const vnode = super.renderToVNode(opts);
+        const paper = this._paperBackground;
+        paper && vnode.children.unshift(
+            createPaperVNode(paper, this.getWidth(), this.getHeight(), 'zr' + this._roughOptions.idBase)
+        );
+        return vnode;
+    }
+
+    renderOneToVNode(el: Displayable) {
+        const scope = createBrushScope('zr-one') as SVGBrushScope;
+        this._setRoughScope(scope, [el]);
+        return brushRoughSVG(el, scope);
+    }
+
+    private _setRoughScope(scope: SVGBrushScope, list: Displayable[]) {
+        this._roughOptions.setScope(scope);
+        // There are no layers, the budget applies to the whole chart
+        let shapeCount = 0;
+        for (let i = 0; i < list.length; i++) {
+            shapeCount += getSketchShapeCount(list[i]);
+        }
+        scope.lod = getLodMode(this._roughOpts.lod, shapeCount);
+    }
+
+    // Same clip grouping as zrender's SVG painter, except that reveal clips
+    // are handed to the brush to be traced instead of becoming clip groups.
+    _paintList(list: Displayable[], zrScope: ZRSVGBrushScope, out?: SVGVNode[]) {
+        const scope = zrScope as SVGBrushScope;
+        this._setRoughScope(scope, list);
+
+        const listLen = list.length;
+
+        const clipPathsGroupsStack: SVGVNode[] = [];
+        let clipPathsGroupsStackDepth = 0;
+        let currentClipPathGroup;
+        let prevClipPaths: Path[];
+        let clipGroupNodeIdx = 0;
+        for (let i = 0; i < listLen; i++) {
+            const displayable = list[i];
+            if (!displayable.invisible) {
+                const revealClips: Path[] = [];
+                const clipPaths = util.filter(displayable.__clipPaths || [], function (clipPath) {
+                    if (!isRevealClip(clipPath)) {
+                        return true;
+                    }
+                    scope.revealClip && revealClips.push(clipPath);
+                    return false;
+                });
+                const len = clipPaths.length;
+                const prevLen = prevClipPaths && prevClipPaths.length || 0;
+                let lca;
+                // Find the lowest common ancestor
+                for (lca = Math.max(len - 1, prevLen - 1); lca >= 0; lca--) {
+                    if (prevClipPaths && clipPaths[lca] === prevClipPaths[lca]) {
+                        break;
+                    }
+                }
+                // Pop the stack
+                for (let i = prevLen - 1; i > lca; i--) {
+                    clipPathsGroupsStackDepth--;
+                    currentClipPathGroup = clipPathsGroupsStack[clipPathsGroupsStackDepth - 1];
+                }
+                // Pop clip path group for clipPaths not match the previous.
+                for (let i = lca + 1; i < len; i++) {
+                    const groupAttrs = {};
+                    setClipPath(clipPaths[i], groupAttrs, scope);
+                    const g = createVNode('g', 'clip-g-' + clipGroupNodeIdx++, groupAttrs, []);
+                    (currentClipPathGroup ? currentClipPathGroup.children : out).push(g);
+                    clipPathsGroupsStack[clipPathsGroupsStackDepth++] = g;
+                    currentClipPathGroup = g;
+                }
+                prevClipPaths = clipPaths;
+
+                scope.revealClips = revealClips;
+                const ret = brushRoughSVG(displayable, scope);
+                if (ret) {
+                    (currentClipPathGroup ? currentClipPathGroup.children : out).push(ret);
+                }
+            }
+        }
+    }
+}
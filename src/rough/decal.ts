@@ -0,0 +1,105 @@
+import { isArray, isNumber, RADIAN_TO_DEGREE } from 'zrender/lib/core/util';
+import { PatternObject } from 'zrender/lib/graphic/Pattern';
+import { RoughStyleOption } from './roughConfig';
+
+// The subset of ECharts' DecalObject used to pick a Rough.js fill style.
+export interface DecalOption {
+    symbol?: string | string[]
+    symbolSize?: number
+    color?: string
+    dashArrayX?: number | (number | number[])[]
+    dashArrayY?: number | number[]
+    rotation?: number
+}
+
+// ECharts turns decal options into image patterns and only the pattern reaches
+// zrender. The ECharts side (modelStyle.ts) records which decal each pattern
+// was made from so the painter can sketch it instead of tiling the image.
+const decalOfPattern = new WeakMap<PatternObject, DecalOption>();
+
+export function setPatternDecal(pattern: PatternObject, decal: DecalOption) {
+    decal ? decalOfPattern.set(pattern, decal) : decalOfPattern.delete(pattern);
+}
+
+export function getPatternDecal(pattern: PatternObject) {
+    return decalOfPattern.get(pattern);
+}
+
+const DOT_SYMBOLS = ['circle', 'emptyCircle', 'pin'];
+const ZIGZAG_SYMBOLS = ['triangle', 'diamond', 'arrow', 'emptyTriangle', 'emptyDiamond'];
+
+// Rows of [dash, gap, dash, gap, ...], same normalisation as ECharts applies
+function normalizeDashRows(dash: DecalOption['dashArrayX']): number[][] {
+    if (dash == null || (isArray(dash) && !dash.length)) {
+        return [[5, 5]];
+    }
+    if (isNumber(dash)) {
+        return [[dash, dash]];
+    }
+    let allNumbers = true;
+    for (let i = 0; i < dash.length; i++) {
+        allNumbers = allNumbers && isNumber(dash[i]);
+    }
+    if (allNumbers) {
+        return [dash as number[]];
+    }
+    const rows: number[][] = [];
+    for (let i = 0; i < dash.length; i++) {
+        const row = dash[i];
+        rows.push(isNumber(row) ? [row, row] : row);
+    }
+    return rows;
+}
+
+function isContinuousRow(row: number[]) {
+    let gap = 0;
+    for (let i = 1; i < row.length; i += 2) {
+        gap += row[i];
+    }
+    return gap <= 0;
+}
+
+function sum(arr: number[]) {
+    let total = 0;
+    for (let i = 0; i < arr.length; i++) {
+        total += arr[i];
+    }
+    return total;
+}
+
+function getFillStyle(decal: DecalOption) {
+    const symbol = isArray(decal.symbol) ? decal.symbol[0] : (decal.symbol || 'rect');
+    if (DOT_SYMBOLS.indexOf(symbol) >= 0) {
+        return 'dots';
+    }
+    if (ZIGZAG_SYMBOLS.indexOf(symbol) >= 0) {
+        return 'zigzag';
+    }
+    // Rect-like symbols: continuous rows are stripes, a mix of continuous and
+    // broken rows reads as dashes, anything else as a checker / grid.
+    const rows = normalizeDashRows(decal.dashArrayX);
+    let continuous = 0;
+    for (let i = 0; i < rows.length; i++) {
+        isContinuousRow(rows[i]) && continuous++;
+    }
+    return continuous === rows.length
+        ? 'hachure'
+        : continuous > 0 ? 'dashed' : 'cross-hatch';
+}
+
+/**
+ * Rough.js fill settings approximating an ECharts decal.
+ */
+export function getDecalRoughOptions(decal: DecalOption): RoughStyleOption {
+    const dashY = decal.dashArrayY;
+    const period = isNumber(dashY) ? dashY * 2 : isArray(dashY) && dashY.length ? sum(dashY) : 10;
+    return {
+        fill: decal.color || 'rgba(0, 0, 0, 0.2)',
+        fillStyle: getFillStyle(decal),
+        hachureGap: Math.max(period, 3),
+        // Rough.js draws horizontal hachure at 90° and rotates clockwise as the
+        // angle decreases; decal rotation is clockwise in radians.
+        hachureAngle: 90 - (decal.rotation || 0) * RADIAN_TO_DEGREE,
+        fillWeight: 1
+    };
+}
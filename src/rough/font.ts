@@ -0,0 +1,137 @@
+import globalDefault from 'echarts/lib/model/globalDefault';
+import { isString } from 'zrender/lib/core/util';
+
+// Default font of the chart text (`font` painter option). Canvas text ignores
+// CSS, and text drawn before a web font has loaded silently uses a fallback.
+// So the painter only draws the family once the font is available, and then
+// repaints. It is applied when text is drawn, in place of ECharts' default
+// family: the chart's option and model are left as the user set them, and
+// labels keep the layout ECharts measured with the default family.
+
+/**
+ * A font family, either already known to the page (CSS `@font-face`, system
+ * font) or loaded from `url`, e.g. a font file bundled with the app.
+ */
+export interface RoughFontOption {
+    family: string
+    url?: string
+    weight?: string | number
+    style?: string
+    // Families the text falls back to, e.g. 'cursive': listed after the font,
+    // and the default alone where the font is not available
+    fallback?: string
+}
+
+// Size the font is probed with, any size loads the face
+const PROBE_FONT_SIZE = '16px';
+// Text measured to tell an installed family from the generic ones
+const PROBE_TEXT = 'mmmmmmmmmmlli10OWgy';
+const PROBE_GENERIC_FAMILIES = ['monospace', 'serif', 'sans-serif'];
+
+// Family ECharts gives text where neither the option nor the theme sets one
+const DEFAULT_FAMILY: string = globalDefault.textStyle.fontFamily;
+// How font strings made by ECharts and zrender end with it
+const DEFAULT_FAMILY_SUFFIX = ' ' + DEFAULT_FAMILY;
+
+export function normalizeFontOption(font: string | RoughFontOption): RoughFontOption {
+    return isString(font) ? { family: font } : font || null;
+}
+
+// Single quotes, which also fit in the style attribute of SVG output
+function quoteFamily(family: string) {
+    return /^[\w-]+$/.test(family) ? family : '\'' + family.replace(/'/g, '\\\'') + '\'';
+}
+
+/**
+ * The font as a CSS font family list: the family, then its fallback.
+ */
+export function getFontStack(font: RoughFontOption) {
+    return quoteFamily(font.family) + (font.fallback ? ', ' + font.fallback : '');
+}
+
+/**
+ * A CSS font string with the painter's family in place of the default one.
+ * Fonts with a family of their own, set in the option or the theme, are kept.
+ */
+export function getPainterFont(font: string, family: string) {
+    const end = font.length - DEFAULT_FAMILY_SUFFIX.length;
+    return family && end >= 0 && font.slice(end) === DEFAULT_FAMILY_SUFFIX
+        ? font.slice(0, end) + ' ' + family
+        : font;
+}
+
+/**
+ * A font family with the painter's in place of the default one.
+ */
+export function getPainterFontFamily(fontFamily: string, family: string) {
+    return family && (!fontFamily || fontFamily === DEFAULT_FAMILY) ? family : fontFamily;
+}
+
+function getProbeFont(font: RoughFontOption, family: string) {
+    return [font.style || '', font.weight || '', PROBE_FONT_SIZE, family].join(' ').trim();
+}
+
+// A family no `@font-face` declares is drawn when it is installed, which
+// shows in text widths: text in it measures differently from text in at
+// least one of the generic families it would otherwise fall back to.
+function isInstalledFont(font: RoughFontOption) {
+    const ctx = document.createElement('canvas').getContext('2d');
+    if (!ctx) {
+        return true;
+    }
+    for (let i = 0; i < PROBE_GENERIC_FAMILIES.length; i++) {
+        const generic = PROBE_GENERIC_FAMILIES[i];
+        ctx.font = getProbeFont(font, generic);
+        const genericWidth = ctx.measureText(PROBE_TEXT).width;
+        ctx.font = getProbeFont(font, quoteFamily(font.family) + ', ' + generic);
+        if (ctx.measureText(PROBE_TEXT).width !== genericWidth) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Resolves once the font can be drawn, to whether it can: `false` when its
+ * file failed to load, or when the family is neither declared by the page
+ * nor installed. Without a DOM (server side rendering) there is nothing to
+ * wait for.
+ */
+export function loadFont(font: RoughFontOption): Promise<boolean> {
+    if (typeof document === 'undefined' || !document.fonts) {
+        return Promise.resolve(true);
+    }
+    const descriptors: FontFaceDescriptors = {};
+    font.weight != null && (descriptors.weight = font.weight + '');
+    font.style && (descriptors.style = font.style);
+    let loading: Promise<boolean>;
+    if (font.url) {
+        const face = new FontFace(font.family, 'url(' + JSON.stringify(font.url) + ')', descriptors);
+        document.fonts.add(face);
+        loading = face.load().then(() => true);
+    }
+    else {
+        // Resolves with no faces, rather than failing, for unknown families
+        loading = document.fonts.load(getProbeFont(font, quoteFamily(font.family))).then(function (faces) {
+            return faces.length > 0 || isInstalledFont(font);
+        });
+    }
+    return loading.then(function (loaded) {
+        loaded || console.warn('Font ' + font.family + ' is not available, text keeps its fallback font.');
+        return loaded;
+    }, function (e) {
+        console.warn('Font ' + font.family + ' could not be loaded, text keeps its fallback font.', e);
+        return false;
+    });
+}
+
+/**
+ * Loads the font of the painter option, then calls `onFamily` with the
+ * families to draw: the font and its fallback, or the fallback alone (null
+ * without one) where the font is not available.
+ */
+export function watchPainterFont(font: RoughFontOption, onFamily: (family: string) => void) {
+    loadFont(font).then(function (loaded) {
+        onFamily(loaded ? getFontStack(font) : font.fallback || null);
+    });
+}
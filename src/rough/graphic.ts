@@ -1,23 +1,49 @@
 import rough from 'roughjs';
+import type { Drawable } from 'roughjs/bin/core';
 import Displayable, { DEFAULT_COMMON_STYLE } from 'zrender/lib/graphic/Displayable';
 import PathProxy from 'zrender/lib/core/PathProxy';
 import { GradientObject } from 'zrender/lib/graphic/Gradient';
 import { ImagePatternObject, InnerImagePatternObject } from 'zrender/lib/graphic/Pattern';
 import { ZRCanvasRenderingContext } from 'zrender/lib/core/types';
 import { createOrUpdateImage, isImageReady } from 'zrender/lib/graphic/helper/image';
-import { getCanvasGradient, isClipPathChanged } from './helper';
+import {
+    averageGradientColor, getCanvasGradient, getLinearGradientCoords, getRadialGradientCoords, isClipPathChanged, sampleGradientColor
+} from './helper';
 import Path, { PathStyleProps } from 'zrender/lib/graphic/Path';
 import ZRImage, { ImageStyleProps } from 'zrender/lib/graphic/Image';
 import TSpan, {TSpanStyleProps} from 'zrender/lib/graphic/TSpan';
 import { MatrixArray } from 'zrender/lib/core/matrix';
-import { RADIAN_TO_DEGREE } from 'zrender/lib/core/util';
+import { extend, filter, isGradientObject, isImagePatternObject, RADIAN_TO_DEGREE } from 'zrender/lib/core/util';
+import { parse as parseColor, stringify as stringifyColor } from 'zrender/lib/tool/color';
 import { getLineDash } from './dashStyle';
+import { drawComposited } from './offscreen';
+import { getPresetColor, RoughPreset, RoughPresetPass } from './preset';
 import { REDRAW_BIT, SHAPE_CHANGED_BIT } from 'zrender/lib/graphic/constants';
 import type IncrementalDisplayable from 'zrender/lib/graphic/IncrementalDisplayable';
 import { DEFAULT_FONT } from 'zrender/lib/core/platform';
+import { getElementSeed } from './seed';
+import { getPainterFont } from './font';
+import {
+    DEFAULT_ROUGH_CONFIG, getCheapRoughOptions, ResolvedRoughConfig, RoughLodMode, RoughStyleOption, RoughStyleProps
+} from './roughConfig';
+import BoundingRect from 'zrender/lib/core/BoundingRect';
+import { getDecalRoughOptions, getPatternDecal } from './decal';
+import { LinearGradientObject } from 'zrender/lib/graphic/LinearGradient';
+import { RadialGradientObject } from 'zrender/lib/graphic/RadialGradient';
+import { getSolidFillSets, revealDrawable, RevealTest, truncateDrawable } from './reveal';
+import { clearSketchCache, getCachedSketch, getCachedSvgPath, setCachedSvgPath } from './sketchCache';
+import { getPrimitiveSketch } from './primitive';
+import { getStateMarkMargin, getStateTreatment, StateMark } from './states';
+import { getFilteredImage, getLuminanceHachurePath, ImageSourceRect, RoughImageOption } from './image';
+import {
+    eachGlyph, getOutlineWidth, getTextJitterMargin, GlyphLayout, layoutGlyphs, outlineGlyphs, ResolvedRoughTextOption
+} from './text';
 
 // ─── Rough canvas cache ───────────────────────────────────────────────────────
 
+// Sketches are generated once (sketchCache.ts) and replayed on any canvas
+const roughGenerator = rough.generator();
+
 const roughCanvasCache = new WeakMap<HTMLCanvasElement, ReturnType<typeof rough.canvas>>();
 
 function getRoughCanvas(canvas: HTMLCanvasElement) {
@@ -122,6 +148,14 @@ function styleHasFill(style: PathStyleProps) {
     return fill != null && fill !== 'none';
 }
 
+function getGradient(v: PathStyleProps['stroke'] | PathStyleProps['fill']): GradientObject {
+    return v && typeof v === 'object' && isGradientObject(v) ? v : null;
+}
+
+function getImagePattern(v: PathStyleProps['fill']): ImagePatternObject {
+    return v && typeof v === 'object' && isImagePatternObject(v) ? v : null;
+}
+
 export function createCanvasPattern(
     this: void,
     ctx: CanvasRenderingContext2D,
@@ -142,65 +176,676 @@ export function createCanvasPattern(
     }
 }
 
-// ─── Brush functions ──────────────────────────────────────────────────────────
-
-function brushPath(ctx: CanvasRenderingContext2D, el: Path, style: PathStyleProps) {
-    const strokePercent = style.strokePercent;
-    const strokePart = strokePercent < 1;
-
+// Records the element geometry into its PathProxy (never draws directly to the
+// canvas ctx), rebuilding only when the shape changed.
+export function updatePathProxy(dpr: number, el: Path, ownProxy: boolean) {
     const firstDraw = !el.path;
-    if ((!el.silent || strokePart) && firstDraw) {
+    if (ownProxy && firstDraw) {
         el.createPathProxy();
     }
 
     const path = el.path || pathProxyForDraw;
-    const dirtyFlag = el.__dirty;
 
-    // Always record into PathProxy (never draw directly to canvas ctx)
-    if (firstDraw || (dirtyFlag & SHAPE_CHANGED_BIT)) {
-        path.setDPR((ctx as any).dpr);
+    if (firstDraw || (el.__dirty & SHAPE_CHANGED_BIT)) {
+        path.setDPR(dpr);
         path.setContext(null);
         path.reset();
         el.buildPath(path, el.shape, false);
         path.toStatic();
         el.pathUpdated();
+        path !== pathProxyForDraw && clearSketchCache(el);
     }
+    return path;
+}
 
-    // Replay recorded commands through our SVG recorder
-    const recorder = new SVGPathRecorder();
-    path.rebuildPath(recorder as any, strokePart ? strokePercent : 1);
-    const svgPath = recorder.getPath();
-    if (!svgPath) return;
+// ─── Brush functions ──────────────────────────────────────────────────────────
+
+/**
+ * The SVG path an element is sketched from. Nothing changed since the last
+ * paint (`unchanged`, read before the path update clears the shape flag):
+ * reuse the one the cached sketches were made from. Otherwise replay the
+ * recorded commands through our SVG recorder; the cache keeps its sketches
+ * if the path is the same. The whole path is always sketched, partial
+ * strokes are cut from the sketch (getElementSketch).
+ */
+export function getSketchSvgPath(el: Path, path: PathProxy, unchanged: boolean): string {
+    let svgPath = unchanged ? getCachedSvgPath(el) : null;
+    if (svgPath == null) {
+        const recorder = new SVGPathRecorder();
+        path.rebuildPath(recorder as any, 1);
+        svgPath = recorder.getPath();
+        setCachedSvgPath(el, svgPath);
+    }
+    return svgPath;
+}
+
+/**
+ * What to sketch for a path, shared by the canvas and SVG renderers.
+ * Roughjs only accepts plain colour strings: gradients are left to the
+ * renderer (or averaged in 'solid' mode), decal patterns become Rough.js fill
+ * styles and other image patterns are left to the renderer to tile inside
+ * the outline.
+ */
+export interface SketchStyle {
+    options: RoughStyleOption
+    fillGradient: GradientObject
+    strokeGradient: GradientObject
+    fillPattern: ImagePatternObject
+    // Alphas taken off translucent plain colours whose pen strokes overlap,
+    // applied to the whole fill and the whole outline by the painters
+    fillAlpha: number
+    strokeAlpha: number
+}
+
+// A translucent plain colour as its opaque colour and its alpha
+function splitColorAlpha(color: string): [string, number] {
+    const rgba = color && color !== 'none' ? parseColor(color) : null;
+    return rgba && rgba[3] > 0 && rgba[3] < 1
+        ? [stringifyColor(rgba, 'rgb'), rgba[3]]
+        : [color, 1];
+}
 
-    // Roughjs only accepts plain colour strings (no gradients/patterns)
+export function getSketchStyle(el: Path, style: PathStyleProps, scope: RoughScope, lod: RoughLodMode): SketchStyle {
+    let fillGradient = getGradient(style.fill);
+    let strokeGradient = styleHasStroke(style) ? getGradient(style.stroke) : null;
+    let fillPattern = getImagePattern(style.fill);
     const fillColor = isValidStrokeFillStyle(style.fill as any) ? style.fill as string : 'none';
     const explicitStroke = styleHasStroke(style) && isValidStrokeFillStyle(style.stroke as any)
         ? style.stroke as string
         : 'none';
 
-    const hasFill = fillColor !== 'none';
+    const hasFill = fillColor !== 'none' || !!fillGradient || !!fillPattern;
+    const hasStroke = explicitStroke !== 'none' || !!strokeGradient;
 
-    // Filled shapes without an explicit stroke get a dark outline — correct for
-    // the hand-drawn aesthetic and required for elements like gauge arc zones
-    // that carry no borderColor in their ECharts style.
-    const strokeColor = explicitStroke !== 'none' ? explicitStroke : hasFill ? '#333' : 'none';
+    const roughConfig = scope.rough || DEFAULT_ROUGH_CONFIG;
+    const strokeColor = explicitStroke !== 'none' ? explicitStroke : hasFill && !hasStroke ? roughConfig.fallbackStroke : 'none';
 
-    const rc = getRoughCanvas(ctx.canvas);
-    rc.path(svgPath, {
-        // Filled shapes (bars, areas) get the full sketchy treatment.
-        // Stroke-only paths (axes, grid lines, ticks) use minimal roughness
-        // so they stay legible at lineWidth 1.
-        roughness: hasFill ? 1.5 : 0.4,
-        bowing:    hasFill ? 1   : 0.3,
+    const options: RoughStyleOption = extend(extend({}, hasFill ? roughConfig.filled : roughConfig.stroked), {
         stroke: strokeColor,
         strokeWidth: style.lineWidth || 1,
-        fill: hasFill ? fillColor : undefined,
-        fillStyle: 'hachure',
-        hachureGap: 5,
+        fill: fillColor !== 'none' ? fillColor : undefined,
+        // Stable per-element seed: the same element sketches identically on
+        // every refresh instead of re-randomizing.
+        seed: getElementSeed(el, scope.seed, scope.idBase),
     });
+    // Dashes of the element's own stroke, scaled like the canvas renderer's.
+    // Caps and joins are not Rough.js options: the canvas keeps the ones
+    // bound for the element, the SVG renderer sets them on the sketch paths.
+    if (explicitStroke !== 'none' || strokeGradient) {
+        const [lineDash, lineDashOffset] = getLineDash(el);
+        if (lineDash) {
+            options.strokeLineDash = lineDash;
+            lineDashOffset && (options.strokeLineDashOffset = lineDashOffset);
+        }
+    }
+    // Per-element options from the ECharts option tree win over everything
+    extend(options, (style as RoughStyleProps).rough);
+    lod === 'cheap' && extend(options, getCheapRoughOptions(options));
+
+    if (fillPattern) {
+        const decal = getPatternDecal(fillPattern);
+        // zrender draws decals as a separate element sharing the host's
+        // geometry and stroke; the host has already sketched the outline.
+        if (decal) {
+            options.stroke = 'none';
+        }
+        if (decal && options.pattern !== 'canvas') {
+            extend(options, getDecalRoughOptions(decal));
+            fillPattern = null;
+        }
+        else {
+            options.fill = undefined;
+        }
+    }
+    else if ((fillGradient || strokeGradient) && options.gradient === 'solid') {
+        fillGradient && (options.fill = averageGradientColor(fillGradient));
+        strokeGradient && (options.stroke = averageGradientColor(strokeGradient));
+        fillGradient = strokeGradient = null;
+    }
+    if (scope.preset) {
+        options.fill = getPresetColor(scope.preset, options.fill);
+        options.stroke = getPresetColor(scope.preset, options.stroke);
+    }
+    // Hachure lines and the double strokes of outlines cross each other and
+    // a translucent colour would be darker there, so those are sketched opaque
+    // instead. Solid fills and single strokes keep their colour.
+    let fillAlpha = 1;
+    let strokeAlpha = 1;
+    if (lod !== 'canvas' && getIsolate(style, scope)) {
+        !fillGradient && !fillPattern && options.fillStyle !== 'solid'
+            && ([options.fill, fillAlpha] = splitColorAlpha(options.fill));
+        !strokeGradient && !options.disableMultiStroke
+            && ([options.stroke, strokeAlpha] = splitColorAlpha(options.stroke));
+    }
+    return { options, fillGradient, strokeGradient, fillPattern, fillAlpha, strokeAlpha };
+}
+
+// ─── Brush functions ──────────────────────────────────────────────────────────
+
+function brushPath(
+    ctx: CanvasRenderingContext2D,
+    el: Path,
+    style: PathStyleProps,
+    scope: BrushScope,
+    // Null at the 'canvas' level of detail
+    sketchStyle: SketchStyle,
+    cutout?: boolean
+) {
+    const strokePercent = style.strokePercent;
+    const strokePart = strokePercent < 1;
+
+    // Read before the path update clears the shape flag
+    const unchanged = !el.__dirty;
+    const path = updatePathProxy((ctx as ZRCanvasRenderingContext).dpr, el, !el.silent || strokePart);
+
+    if (!sketchStyle) {
+        brushRevealed(ctx, el, scope, function () {
+            brushPlainPath(ctx, el, path, style, strokePart ? strokePercent : 1);
+        });
+        return;
+    }
+
+    const svgPath = getSketchSvgPath(el, path, unchanged);
+    if (!svgPath) return;
+
+    const { options, fillGradient, strokeGradient, fillPattern } = sketchStyle;
+    const percent = strokePart ? strokePercent : 1;
+    const treatment = getStateTreatment(el, options, scope.preset);
+    const opacity = treatment ? treatment.opacity : 1;
+    // Shadows and marks under the path go with its fill, marks on top with
+    // its outline
+    const underFill = scope.sketchPart !== 'stroke';
+    const overStroke = scope.sketchPart !== 'fill';
+    cutout && underFill && brushRevealed(ctx, el, scope, function () {
+        brushCutoutShadow(ctx, el, svgPath, options, style);
+    });
+    treatment && underFill && brushStateMarks(ctx, el, svgPath, treatment.marks, true);
+    if (opacity > 0) {
+        opacity < 1 && ctx.save();
+        opacity < 1 && (ctx.globalAlpha *= opacity);
+        if (fillPattern) {
+            underFill && brushCanvasPattern(ctx, el, svgPath, options, fillPattern, scope);
+            options.stroke !== 'none' && sketchPath(ctx, el, svgPath, options, percent, scope);
+        }
+        else if (fillGradient || strokeGradient) {
+            brushGradientPath(ctx, el, svgPath, options, fillGradient, strokeGradient, percent, scope);
+        }
+        else {
+            sketchPath(ctx, el, svgPath, options, percent, scope);
+        }
+        opacity < 1 && ctx.restore();
+    }
+    treatment && overStroke && brushStateMarks(ctx, el, svgPath, treatment.marks, false);
+}
+
+/**
+ * The sketch of a state mark (see states.ts), as far as it is drawn.
+ */
+export function getStateMarkSketch(el: Path, svgPath: string, mark: StateMark) {
+    if (!mark.generate) {
+        return getElementSketch(el, svgPath, mark.options, mark.percent);
+    }
+    const drawable = getCachedSketch(el, svgPath, mark.options, mark.generate);
+    return mark.percent < 1 ? truncateDrawable(drawable, mark.percent) : drawable;
+}
+
+// Marks of the element's states, the ones under it or the ones on top
+function brushStateMarks(ctx: CanvasRenderingContext2D, el: Path, svgPath: string, marks: StateMark[], under: boolean) {
+    const rc = getRoughCanvas(ctx.canvas);
+    for (let i = 0; i < marks.length; i++) {
+        const mark = marks[i];
+        if (!mark.under === !under && mark.opacity > 0 && mark.percent > 0) {
+            ctx.save();
+            ctx.globalAlpha *= mark.opacity;
+            rc.draw(getStateMarkSketch(el, svgPath, mark));
+            ctx.restore();
+        }
+    }
+}
+
+// Offset and colour of cut-out shadows of elements without their own
+const CUTOUT_OFFSET = 3;
+const CUTOUT_COLOR = 'rgba(0, 0, 0, 0.3)';
+
+function hasCanvasShadow(style: PathStyleProps) {
+    return !!style.shadowColor && (style.shadowBlur > 0 || !!style.shadowOffsetX || !!style.shadowOffsetY);
+}
+
+/**
+ * How the shadow of a path is drawn (`shadow` Rough.js key), null if it has
+ * none. Rough.js draws a sketch in many strokes and the canvas would shadow
+ * each of them: 'soft' shadows are applied once to the composited sketch.
+ */
+export function getShadowMode(style: PathStyleProps, scope: RoughScope): 'soft' | 'cutout' {
+    if (getElementLod(style, scope) === 'canvas') {
+        return null;
+    }
+    const roughConfig = scope.rough || DEFAULT_ROUGH_CONFIG;
+    const own = (style as RoughStyleProps).rough;
+    const hasFill = styleHasFill(style);
+    const mode = own && own.shadow || (hasFill ? roughConfig.filled : roughConfig.stroked).shadow;
+    return mode === 'cutout' && hasFill ? 'cutout'
+        : hasCanvasShadow(style) ? 'soft'
+        : null;
 }
 
-function brushImage(ctx: CanvasRenderingContext2D, el: ZRImage, style: ImageStyleProps) {
+// The `isolate` Rough.js key of the path
+function getIsolate(style: PathStyleProps, scope: RoughScope) {
+    const roughConfig = scope.rough || DEFAULT_ROUGH_CONFIG;
+    const own = (style as RoughStyleProps).rough;
+    return own && own.isolate != null
+        ? own.isolate
+        : (styleHasFill(style) ? roughConfig.filled : roughConfig.stroked).isolate !== false;
+}
+
+/**
+ * Whether a path is sketched on its own and composited with its opacity and
+ * blend mode (`isolate` Rough.js key): with `globalAlpha` on every stroke,
+ * hachure lines crossing the outline would be darker than either.
+ */
+function isIsolated(style: PathStyleProps, scope: RoughScope) {
+    const translucent = style.opacity != null && style.opacity < 1;
+    const blended = !!style.blend && style.blend !== 'source-over';
+    return (translucent || blended) && getElementLod(style, scope) !== 'canvas' && getIsolate(style, scope);
+}
+
+/**
+ * Alphas the fill and the outline of a sketch are composited with, [fill,
+ * stroke], see getSketchStyle. The alpha of a part the path does not draw is
+ * the other one's. Null when both are opaque.
+ */
+export function getSketchAlphas(sketchStyle: SketchStyle): number[] {
+    const { options, fillAlpha, strokeAlpha } = sketchStyle;
+    if (fillAlpha === 1 && strokeAlpha === 1) {
+        return null;
+    }
+    const hasFill = !!(options.fill || sketchStyle.fillGradient || sketchStyle.fillPattern);
+    const hasStroke = options.stroke !== 'none' || !!sketchStyle.strokeGradient;
+    return [hasFill ? fillAlpha : strokeAlpha, hasStroke ? strokeAlpha : fillAlpha];
+}
+
+export type SketchPart = 'fill' | 'stroke';
+
+/**
+ * The sets of the sketch in one part of it, its fill or its outline. All of
+ * them without a part.
+ */
+export function getSketchPart(drawable: Drawable, part: SketchPart): Drawable {
+    return part ? {
+        shape: drawable.shape,
+        options: drawable.options,
+        sets: filter(drawable.sets, set => (set.type === 'path') === (part === 'stroke'))
+    } : drawable;
+}
+
+/**
+ * Offset of a cut-out shadow in global coordinates: the element's own shadow
+ * offset and colour, or a default.
+ */
+export function getCutoutShadow(style: PathStyleProps) {
+    const hasOffset = hasCanvasShadow(style) && (style.shadowOffsetX || style.shadowOffsetY);
+    return {
+        x: hasOffset ? style.shadowOffsetX || 0 : CUTOUT_OFFSET,
+        y: hasOffset ? style.shadowOffsetY || 0 : CUTOUT_OFFSET,
+        color: hasCanvasShadow(style) ? style.shadowColor : CUTOUT_COLOR
+    };
+}
+
+// The element's transform, moved by (dx, dy) in global coordinates
+function setOffsetTransform(ctx: CanvasRenderingContext2D, el: Displayable, dx: number, dy: number) {
+    const dpr = (ctx as ZRCanvasRenderingContext).dpr || 1;
+    const m = el.transform || [1, 0, 0, 1, 0, 0];
+    ctx.setTransform(dpr * m[0], dpr * m[1], dpr * m[2], dpr * m[3], dpr * (m[4] + dx), dpr * (m[5] + dy));
+}
+
+/**
+ * Options of an extra preset pass (see preset.ts): the element's, refined by
+ * the pass, with a seed of its own.
+ */
+export function getPassSketchOptions(options: RoughStyleOption, pass: RoughPresetPass, index: number) {
+    const passOptions: RoughStyleOption = extend(extend({}, options), pass.rough);
+    passOptions.seed = options.seed + index + 1;
+    return passOptions;
+}
+
+// Extra passes of the preset (watercolor washes) under a filled sketch.
+// Reveal clips cut them like solid fills.
+function brushPresetPasses(
+    ctx: CanvasRenderingContext2D,
+    el: Path,
+    svgPath: string,
+    options: RoughStyleOption,
+    percent: number,
+    passes: RoughPresetPass[],
+    scope: BrushScope
+) {
+    const rc = getRoughCanvas(ctx.canvas);
+    const revealClips = scope.revealClips;
+    for (let i = 0; i < passes.length; i++) {
+        const pass = passes[i];
+        const offset = pass.offset || [0, 0];
+        ctx.save();
+        revealClips && revealClips.length && clipByPaths(ctx, revealClips);
+        setOffsetTransform(ctx, el, offset[0], offset[1]);
+        pass.opacity != null && (ctx.globalAlpha *= pass.opacity);
+        rc.draw(getElementSketch(el, svgPath, getPassSketchOptions(options, pass, i), percent));
+        ctx.restore();
+    }
+}
+
+/**
+ * How far preset passes are offset from the element, in global coordinates.
+ */
+export function getPassesMargin(passes: RoughPresetPass[]) {
+    let margin = 0;
+    for (let i = 0; i < (passes ? passes.length : 0); i++) {
+        const offset = passes[i].offset || [0, 0];
+        margin = Math.max(margin, Math.abs(offset[0]), Math.abs(offset[1]));
+    }
+    return margin;
+}
+
+export function getCutoutSketchOptions(options: RoughStyleOption, color: string): RoughStyleOption {
+    return extend(extend({}, options), {
+        stroke: 'none',
+        fill: color,
+        fillStyle: 'solid'
+    });
+}
+
+// Paper cut-out shadow: the element's silhouette sketched solid, offset on
+// the page and drawn under the element
+function brushCutoutShadow(
+    ctx: CanvasRenderingContext2D,
+    el: Path,
+    svgPath: string,
+    options: RoughStyleOption,
+    style: PathStyleProps
+) {
+    const shadow = getCutoutShadow(style);
+    const silhouette = getCutoutSketchOptions(options, shadow.color);
+    ctx.save();
+    setOffsetTransform(ctx, el, shadow.x, shadow.y);
+    getRoughCanvas(ctx.canvas).draw(getElementSketch(el, svgPath, silhouette, 1));
+    ctx.restore();
+}
+
+/**
+ * The sketch of a path, or the first `percent` of it for `strokePercent`
+ * animations. The sketch is always generated for the whole path with the
+ * element seed and then cut, so the pen appears to trace the final drawing
+ * instead of the lines shifting every frame. Shapes Rough.js has a primitive
+ * for (circles, rects, pie slices, ...) are drawn with it rather than from
+ * their path, see primitive.ts.
+ */
+export function getElementSketch(el: Displayable, svgPath: string, options: RoughStyleOption, percent: number) {
+    const drawable = getCachedSketch(el, svgPath, options, function () {
+        return getPrimitiveSketch(el, options) || roughGenerator.path(svgPath, options);
+    });
+    return percent < 1 ? truncateDrawable(drawable, percent) : drawable;
+}
+
+/**
+ * Sketches the path, or the part of it drawn so far: see getElementSketch,
+ * and under reveal clips (line draw-on, see updateClipStatus) the pen strokes
+ * up to the clip edge.
+ */
+function sketchPath(
+    ctx: CanvasRenderingContext2D,
+    el: Path,
+    svgPath: string,
+    options: RoughStyleOption,
+    percent: number,
+    scope: BrushScope
+) {
+    const rc = getRoughCanvas(ctx.canvas);
+    const part = scope.sketchPart;
+    let drawable = getSketchPart(getElementSketch(el, svgPath, options, percent), part);
+
+    const passes = options.fill && part !== 'stroke' && scope.preset && scope.preset.passes;
+    passes && brushPresetPasses(ctx, el, svgPath, options, percent, passes, scope);
+
+    const revealClips = scope.revealClips;
+    if (revealClips && revealClips.length) {
+        // Solid fills have no pen order, they are revealed by clipping
+        const solidFill = getSolidFillSets(drawable);
+        if (solidFill.sets.length) {
+            ctx.save();
+            clipByPaths(ctx, revealClips);
+            setContextTransform(ctx, el);
+            rc.draw(solidFill);
+            ctx.restore();
+        }
+        drawable = revealDrawable(drawable, createRevealTest(el, revealClips));
+    }
+    rc.draw(drawable);
+}
+
+export function createRevealTest(el: Displayable, clipPaths: Path[]): RevealTest {
+    const m = el.transform;
+    return function (x, y) {
+        // Sketch ops are in element space, Path#contain expects global space
+        const gx = m ? m[0] * x + m[2] * y + m[4] : x;
+        const gy = m ? m[1] * x + m[3] * y + m[5] : y;
+        for (let i = 0; i < clipPaths.length; i++) {
+            if (!clipPaths[i].contain(gx, gy)) {
+                return false;
+            }
+        }
+        return true;
+    };
+}
+
+export function getElementLod(style: PathStyleProps, scope: RoughScope): RoughLodMode {
+    const rough = (style as RoughStyleProps).rough;
+    // Budgets are resolved by modelStyle.ts, only modes apply here
+    const lod = rough ? rough.lod : null;
+    return typeof lod === 'string' ? lod : (scope.lod || 'rough');
+}
+
+// Lowest level of detail: the path filled and stroked as the canvas renderer
+// would, for layers with more shapes than can be sketched in time.
+function brushPlainPath(
+    ctx: CanvasRenderingContext2D,
+    el: Path,
+    path: PathProxy,
+    style: PathStyleProps,
+    percent: number
+) {
+    const hasFill = styleHasFill(style);
+    const hasStroke = styleHasStroke(style);
+    if (!hasFill && !hasStroke) {
+        return;
+    }
+    // Gradients and patterns are set on a saved context, plain colours have
+    // already been bound by bindPathAndTextCommonStyle.
+    ctx.save();
+    const fillGradient = getGradient(style.fill);
+    const fillPattern = getImagePattern(style.fill);
+    const strokeGradient = getGradient(style.stroke);
+    if (fillGradient || strokeGradient) {
+        const rect = el.getBoundingRect();
+        fillGradient && (ctx.fillStyle = getCanvasGradient(ctx, fillGradient, rect));
+        strokeGradient && (ctx.strokeStyle = getCanvasGradient(ctx, strokeGradient, rect));
+    }
+    if (fillPattern) {
+        const canvasPattern = createCanvasPattern(ctx, fillPattern, el);
+        canvasPattern && (ctx.fillStyle = canvasPattern);
+    }
+
+    ctx.beginPath();
+    path.rebuildPath(ctx, percent);
+    hasFill && ctx.fill();
+    if (hasStroke) {
+        const [lineDash, lineDashOffset] = getLineDash(el);
+        if (lineDash && ctx.setLineDash) {
+            ctx.setLineDash(lineDash);
+            ctx.lineDashOffset = lineDashOffset;
+        }
+        ctx.stroke();
+    }
+    ctx.restore();
+}
+
+/**
+ * Number of shapes the element sketches, for level-of-detail budgets: one per
+ * element, one per point of large symbol paths (flat `points` arrays).
+ */
+export function getSketchShapeCount(el: Displayable): number {
+    if ((el as IncrementalDisplayable).getTemporalDisplayables) {
+        const incremental = el as IncrementalDisplayable;
+        let count = 0;
+        const displayables = incremental.getDisplayables().concat(incremental.getTemporalDisplayables());
+        for (let i = 0; i < displayables.length; i++) {
+            count += getSketchShapeCount(displayables[i]);
+        }
+        return count;
+    }
+    const points = el instanceof Path && (el.shape as { points?: ArrayLike<unknown> }).points;
+    return points && typeof points[0] === 'number'
+        ? Math.max(Math.floor(points.length / 2), 1)
+        : 1;
+}
+
+/**
+ * Outline of the path as Rough.js fills it solid, in element space: the area
+ * patterns without a Rough.js equivalent are tiled in, so they end where the
+ * sketch does rather than at the exact geometry. Shares the element seed with
+ * the sketch drawn on top.
+ */
+export function getPatternOutline(el: Path, svgPath: string, options: RoughStyleOption) {
+    const sketch = getElementSketch(el, svgPath, extend(extend({}, options), {
+        fill: '#000',
+        fillStyle: 'solid',
+        stroke: 'none'
+    }), 1);
+    let d = '';
+    for (let i = 0; i < sketch.sets.length; i++) {
+        const set = sketch.sets[i];
+        set.type === 'fillPath' && (d += roughGenerator.opsToPath(set));
+    }
+    const shape = sketch.shape;
+    return {
+        d,
+        // As Rough.js fills the shape
+        fillRule: (shape === 'curve' || shape === 'polygon' || shape === 'path' ? 'evenodd' : 'nonzero') as CanvasFillRule
+    };
+}
+
+// Fallback for patterns that have no Rough.js equivalent: tile the image on
+// the canvas inside the sketched outline, and sketch the strokes on top.
+function brushCanvasPattern(
+    ctx: CanvasRenderingContext2D,
+    el: Path,
+    svgPath: string,
+    options: RoughStyleOption,
+    pattern: ImagePatternObject,
+    scope: BrushScope
+) {
+    const canvasPattern = createCanvasPattern(ctx, pattern, el);
+    const outline = canvasPattern && getPatternOutline(el, svgPath, options);
+    if (!outline || !outline.d) {
+        return;
+    }
+    ctx.save();
+    if (scope.revealClips && scope.revealClips.length) {
+        clipByPaths(ctx, scope.revealClips);
+        setContextTransform(ctx, el);
+    }
+    ctx.fillStyle = canvasPattern;
+    ctx.fill(new Path2D(outline.d), outline.fillRule);
+    ctx.restore();
+}
+
+/**
+ * Approximates gradient fills and strokes by sketching the path once per
+ * band along the gradient axis (rings for radial gradients), clipped to the
+ * band and coloured with the gradient sampled at the band's middle. All
+ * passes share the element seed, so hachure lines run straight through the
+ * band boundaries and only change colour.
+ */
+function brushGradientPath(
+    ctx: CanvasRenderingContext2D,
+    el: Path,
+    svgPath: string,
+    options: RoughStyleOption,
+    fillGradient: GradientObject,
+    strokeGradient: GradientObject,
+    percent: number,
+    scope: BrushScope
+) {
+    const rect = el.getBoundingRect();
+    const bandCount = Math.max(options.gradientBands || 1, 1);
+
+    if (fillGradient) {
+        eachGradientBand(ctx, fillGradient, rect, bandCount, function (color) {
+            sketchPath(ctx, el, svgPath, extend(extend({}, options), { fill: color, stroke: 'none' }), percent, scope);
+        });
+    }
+    else if (options.fill) {
+        sketchPath(ctx, el, svgPath, extend(extend({}, options), { stroke: 'none' }), percent, scope);
+    }
+
+    if (strokeGradient) {
+        eachGradientBand(ctx, strokeGradient, rect, bandCount, function (color) {
+            sketchPath(ctx, el, svgPath, extend(extend({}, options), { fill: undefined, stroke: color }), percent, scope);
+        });
+    }
+    else if (options.stroke !== 'none') {
+        sketchPath(ctx, el, svgPath, extend(extend({}, options), { fill: undefined }), percent, scope);
+    }
+}
+
+function eachGradientBand(
+    ctx: CanvasRenderingContext2D,
+    gradient: GradientObject,
+    rect: BoundingRect,
+    bandCount: number,
+    cb: (color: string) => void
+) {
+    // Outermost bands are stretched far enough to cover the whole path.
+    const reach = (Math.abs(rect.width) + Math.abs(rect.height)) * 4 + 1e3;
+
+    for (let i = 0; i < bandCount; i++) {
+        const t0 = i / bandCount;
+        const t1 = (i + 1) / bandCount;
+
+        ctx.save();
+        ctx.beginPath();
+        if (gradient.type === 'radial') {
+            const { x, y, r } = getRadialGradientCoords(gradient as RadialGradientObject, rect);
+            const outer = i === bandCount - 1 ? reach : r * t1;
+            ctx.arc(x, y, outer, 0, Math.PI * 2);
+            if (i > 0) {
+                ctx.moveTo(x + r * t0, y);
+                ctx.arc(x, y, r * t0, 0, Math.PI * 2, true);
+            }
+        }
+        else {
+            const { x, y, x2, y2 } = getLinearGradientCoords(gradient as LinearGradientObject, rect);
+            const dx = x2 - x;
+            const dy = y2 - y;
+            const len = Math.sqrt(dx * dx + dy * dy) || 1;
+            // Normal to the gradient axis, long enough to span the path
+            const nx = -dy / len * reach;
+            const ny = dx / len * reach;
+            const s0 = i === 0 ? -reach / len : t0;
+            const s1 = i === bandCount - 1 ? 1 + reach / len : t1;
+            ctx.moveTo(x + dx * s0 + nx, y + dy * s0 + ny);
+            ctx.lineTo(x + dx * s1 + nx, y + dy * s1 + ny);
+            ctx.lineTo(x + dx * s1 - nx, y + dy * s1 - ny);
+            ctx.lineTo(x + dx * s0 - nx, y + dy * s0 - ny);
+            ctx.closePath();
+        }
+        ctx.clip();
+
+        cb(sampleGradientColor(gradient, (t0 + t1) / 2));
+
+        ctx.restore();
+    }
+}
+
+function brushImage(ctx: CanvasRenderingContext2D, el: ZRImage, style: ImageStyleProps, scope: BrushScope) {
     const image = el.__image = createOrUpdateImage(style.image, el.__image, el, el.onload);
     if (!image || !isImageReady(image)) return;
 
@@ -213,26 +858,102 @@ function brushImage(ctx: CanvasRenderingContext2D, el: ZRImage, style: ImageStyl
     else if (height == null && width != null)  height = width / aspect;
     else if (width == null && height == null) { width = image.width; height = image.height; }
 
+    let sourceRect: ImageSourceRect;
     if (style.sWidth && style.sHeight) {
-        ctx.drawImage(image, style.sx || 0, style.sy || 0, style.sWidth, style.sHeight, x, y, width, height);
+        sourceRect = [style.sx || 0, style.sy || 0, style.sWidth, style.sHeight];
     }
     else if (style.sx && style.sy) {
-        ctx.drawImage(image, style.sx, style.sy, width - style.sx, height - style.sy, x, y, width, height);
+        sourceRect = [style.sx, style.sy, width - style.sx, height - style.sy];
     }
     else {
-        ctx.drawImage(image, x, y, width, height);
+        sourceRect = [0, 0, image.width, image.height];
+    }
+
+    const lod = getElementLod(style, scope);
+    const imageOption = lod !== 'canvas' && getImageOption(style, scope);
+    if (!imageOption) {
+        ctx.drawImage(image, sourceRect[0], sourceRect[1], sourceRect[2], sourceRect[3], x, y, width, height);
+        return;
+    }
+
+    let svgPath = imageOption.frame ? getRectSvgPath(x, y, width, height) : '';
+    const hachurePath = imageOption.hachure
+        ? getLuminanceHachurePath(image, sourceRect, x, y, width, height, imageOption)
+        : null;
+    if (hachurePath != null) {
+        svgPath += hachurePath;
     }
+    else {
+        // Filtered at the size it is drawn on the device
+        const scale = el.getGlobalScale();
+        const dpr = (ctx as ZRCanvasRenderingContext).dpr || 1;
+        const filtered = imageOption.filter && getFilteredImage(
+            image, sourceRect,
+            width * Math.abs(scale[0]) * dpr, height * Math.abs(scale[1]) * dpr,
+            imageOption
+        );
+        filtered
+            ? ctx.drawImage(filtered, x, y, width, height)
+            : ctx.drawImage(image, sourceRect[0], sourceRect[1], sourceRect[2], sourceRect[3], x, y, width, height);
+    }
+    if (svgPath) {
+        const options = getImageSketchOptions(el, style, scope, lod);
+        getRoughCanvas(ctx.canvas).draw(getElementSketch(el, svgPath, options, 1));
+    }
+}
+
+export function getRectSvgPath(x: number, y: number, width: number, height: number) {
+    return `M ${x} ${y} L ${x + width} ${y} L ${x + width} ${y + height} L ${x} ${y + height} Z`;
+}
+
+/**
+ * Sketch treatment of an image (image.ts): the painter's `rough.image`,
+ * refined by the element's own. Null when the image is drawn as it is.
+ */
+export function getImageOption(style: ImageStyleProps, scope: RoughScope): RoughImageOption {
+    const base = (scope.rough || DEFAULT_ROUGH_CONFIG).stroked.image;
+    const own = (style as RoughStyleProps).rough;
+    const option = own && own.image ? extend(extend({}, base), own.image) : base;
+    return option && (option.frame || option.filter || option.hachure) ? option : null;
 }
 
-function brushText(ctx: CanvasRenderingContext2D, el: TSpan, style: TSpanStyleProps) {
+/**
+ * Rough.js options of the frame and hachure lines of an image, drawn like
+ * stroke-only paths in the fallback stroke colour.
+ */
+export function getImageSketchOptions(
+    el: ZRImage, style: ImageStyleProps, scope: RoughScope, lod: RoughLodMode
+): RoughStyleOption {
+    const roughConfig = scope.rough || DEFAULT_ROUGH_CONFIG;
+    const options: RoughStyleOption = extend(extend({}, roughConfig.stroked), {
+        stroke: roughConfig.fallbackStroke,
+        strokeWidth: 1,
+        seed: getElementSeed(el, scope.seed, scope.idBase)
+    });
+    extend(options, (style as RoughStyleProps).rough);
+    options.stroke = getPresetColor(scope.preset, options.stroke);
+    delete options.image;
+    lod === 'cheap' && extend(options, getCheapRoughOptions(options));
+    return options;
+}
+
+function brushText(ctx: CanvasRenderingContext2D, el: TSpan, style: TSpanStyleProps, scope: BrushScope) {
     let text = style.text;
     text != null && (text += '');
     if (!text) return;
 
-    ctx.font = style.font || DEFAULT_FONT;
+    const font = getPainterFont(style.font || DEFAULT_FONT, scope.fontFamily);
+    ctx.font = font;
     ctx.textAlign = style.textAlign;
     ctx.textBaseline = style.textBaseline;
 
+    const layout = scope.text && scope.lod !== 'canvas'
+        && layoutGlyphs(text, style, font, getElementSeed(el, scope.seed, scope.idBase), scope.text);
+    if (layout) {
+        brushGlyphs(ctx, el, style, layout, scope.text.outline);
+        return;
+    }
+
     let lineDash: number[] | false;
     let lineDashOffset: number;
     if (ctx.setLineDash && style.lineDash) {
@@ -252,6 +973,58 @@ function brushText(ctx: CanvasRenderingContext2D, el: TSpan, style: TSpanStylePr
     if (lineDash) ctx.setLineDash([]);
 }
 
+// Hand-drawn text, see text.ts
+function brushGlyphs(
+    ctx: CanvasRenderingContext2D,
+    el: TSpan,
+    style: TSpanStyleProps,
+    layout: GlyphLayout,
+    outline: boolean
+) {
+    ctx.save();
+    ctx.textAlign = 'left';
+    if (ctx.setLineDash && style.lineDash) {
+        const [lineDash, lineDashOffset] = getLineDash(el);
+        if (lineDash) {
+            ctx.setLineDash(lineDash);
+            ctx.lineDashOffset = lineDashOffset;
+        }
+    }
+    const stroke = () => {
+        styleHasStroke(style) && eachGlyph(ctx, layout, function (glyph, x) {
+            ctx.strokeText(glyph, x, 0);
+        });
+    };
+    const fill = () => {
+        if (!styleHasFill(style)) {
+            return;
+        }
+        if (outline) {
+            // The pen traces the glyphs in the fill colour
+            ctx.save();
+            ctx.strokeStyle = ctx.fillStyle;
+            ctx.lineWidth = getOutlineWidth(ctx);
+            ctx.setLineDash && ctx.setLineDash([]);
+            outlineGlyphs(ctx, layout);
+            ctx.restore();
+        }
+        else {
+            eachGlyph(ctx, layout, function (glyph, x) {
+                ctx.fillText(glyph, x, 0);
+            });
+        }
+    };
+    if (style.strokeFirst) {
+        stroke();
+        fill();
+    }
+    else {
+        fill();
+        stroke();
+    }
+    ctx.restore();
+}
+
 // ─── Style binding ────────────────────────────────────────────────────────────
 
 const SHADOW_NUMBER_PROPS = ['shadowBlur', 'shadowOffsetX', 'shadowOffsetY'] as const;
@@ -312,11 +1085,11 @@ function bindPathAndTextCommonStyle(
 
     if (forceSetAll || style.fill !== prevStyle.fill) {
         if (!styleChanged) { flushPathDrawn(ctx, scope); styleChanged = true; }
-        isValidStrokeFillStyle(style.fill) && (ctx.fillStyle = style.fill);
+        isValidStrokeFillStyle(style.fill) && (ctx.fillStyle = getPresetColor(scope.preset, style.fill));
     }
     if (forceSetAll || style.stroke !== prevStyle.stroke) {
         if (!styleChanged) { flushPathDrawn(ctx, scope); styleChanged = true; }
-        isValidStrokeFillStyle(style.stroke) && (ctx.strokeStyle = style.stroke);
+        isValidStrokeFillStyle(style.stroke) && (ctx.strokeStyle = getPresetColor(scope.preset, style.stroke));
     }
     if (forceSetAll || style.opacity !== prevStyle.opacity) {
         if (!styleChanged) { flushPathDrawn(ctx, scope); styleChanged = true; }
@@ -363,12 +1136,47 @@ function setContextTransform(ctx: CanvasRenderingContext2D, el: Displayable) {
     }
 }
 
-function updateClipStatus(_clipPaths: Path[], _ctx: CanvasRenderingContext2D, scope: BrushScope) {
-    // Clip paths are ignored in the rough renderer. In ECharts they exist almost
-    // exclusively to drive entry animations (e.g. gauge arc reveal, line draw-on).
-    // This painter is a static snapshot renderer and has no animation loop, so
-    // applying them would permanently hide elements that are waiting to be revealed.
-    scope.allClipped = false;
+/**
+ * Clip paths that are still animating are entry reveal animations (line
+ * draw-on, gauge arc sweep, ...). Everything else is a structural clip:
+ * grid / polar clipping of series, dataZoom windows and the like.
+ */
+export function isRevealClip(clipPath: Path) {
+    return clipPath.animators.length > 0;
+}
+
+function clipByPaths(ctx: CanvasRenderingContext2D, clipPaths: Path[]) {
+    for (let i = 0; i < clipPaths.length; i++) {
+        const clipPath = clipPaths[i];
+        setContextTransform(ctx, clipPath);
+        const path = updatePathProxy((ctx as ZRCanvasRenderingContext).dpr, clipPath, true);
+        ctx.beginPath();
+        path.rebuildPath(ctx, 1);
+        ctx.clip();
+    }
+}
+
+function updateClipStatus(clipPaths: Path[], ctx: CanvasRenderingContext2D, scope: BrushScope) {
+    let allClipped = false;
+    const structuralClips: Path[] = [];
+    const revealClips: Path[] = [];
+    for (let i = 0; i < clipPaths.length; i++) {
+        const clipPath = clipPaths[i];
+        const isReveal = isRevealClip(clipPath);
+        // Reveal clips can be turned off, in which case elements show their
+        // final geometry right away instead of waiting for the animation.
+        if (scope.revealClip === false && isReveal) {
+            continue;
+        }
+        allClipped = allClipped || clipPath.isZeroArea();
+        // Reveal clips are not applied to the canvas: a hard edge would cut
+        // the sketch mid-line. Paths draw their pen strokes up to the clip
+        // edge instead (sketchPath), text and images are clipped as usual.
+        (isReveal ? revealClips : structuralClips).push(clipPath);
+    }
+    clipByPaths(ctx, structuralClips);
+    scope.revealClips = revealClips;
+    scope.allClipped = allClipped;
 }
 
 function isTransformChanged(m0: MatrixArray, m1: MatrixArray): boolean {
@@ -384,16 +1192,42 @@ const DRAW_TYPE_IMAGE       = 2;
 const DRAW_TYPE_TEXT        = 3;
 const DRAW_TYPE_INCREMENTAL = 4;
 
-export type BrushScope = {
+// Painter settings that decide how elements are sketched, shared by the
+// canvas and SVG renderers
+export interface RoughScope {
+    // Base seed the per-element seeds are derived from
+    seed?: number
+    // First element id of the painter, see getElementSeed
+    idBase?: number
+    // Painter-level Rough.js defaults
+    rough?: ResolvedRoughConfig
+    // Whether clip paths that are still animating are applied
+    revealClip?: boolean
+    // Level of detail of the layer being painted
+    lod?: RoughLodMode
+    // Hand-drawn text, off when null
+    text?: ResolvedRoughTextOption
+    // Named look of the painter, see preset.ts
+    preset?: RoughPreset
+    // Families of the painter's font, drawn in place of the default family
+    fontFamily?: string
+}
+
+export type BrushScope = RoughScope & {
     inHover: boolean
     viewWidth: number
     viewHeight: number
+    // Reveal clips of the current element, traced rather than clipped
+    revealClips?: Path[]
     prevElClipPaths?: Path[]
     prevEl?: Displayable
     allClipped?: boolean
     batchFill?: string
     batchStroke?: string
     lastDrawType?: number
+    // Part of the current path being sketched when its fill and its outline
+    // are composited at different alphas, see getSketchAlphas
+    sketchPart?: SketchPart
 }
 
 // No-op: roughjs handles each path individually, no canvas-level batching
@@ -406,8 +1240,121 @@ function getStyle(el: Displayable, inHover?: boolean) {
     return inHover ? (el.__hoverStyle || el.style) : el.style;
 }
 
-export function brushSingle(ctx: CanvasRenderingContext2D, el: Displayable) {
-    brush(ctx, el, { inHover: false, viewWidth: 0, viewHeight: 0 }, true);
+// Brushes the path, or one part of it, onto the layer, or when `composite`
+// is set sketches it on the scratch canvas and draws that at `alpha`
+function brushPathPart(
+    ctx: CanvasRenderingContext2D,
+    el: Path,
+    style: PathStyleProps,
+    scope: BrushScope,
+    sketchStyle: SketchStyle,
+    cutout: boolean,
+    composite: boolean,
+    alpha: number,
+    part?: SketchPart
+) {
+    scope.sketchPart = part;
+    if (composite) {
+        ctx.save();
+        ctx.globalAlpha *= alpha;
+        drawComposited(ctx, getRoughPaintRect(el, scope), function (scratchCtx) {
+            setContextTransform(scratchCtx, el);
+            brushPath(scratchCtx, el, style, scope, sketchStyle, cutout);
+        });
+        ctx.restore();
+    }
+    else {
+        brushPath(ctx, el, style, scope, sketchStyle, cutout);
+    }
+    scope.sketchPart = null;
+}
+
+export function brushSingle(ctx: CanvasRenderingContext2D, el: Displayable, scope?: BrushScope) {
+    brush(ctx, el, scope || { inHover: false, viewWidth: 0, viewHeight: 0 }, true);
+}
+
+// ─── Paint rects ──────────────────────────────────────────────────────────────
+
+// Rough.js defaults for the options that move the pen off the path
+const DEFAULT_ROUGHNESS = 1;
+const DEFAULT_BOWING = 1;
+const DEFAULT_MAX_RANDOMNESS_OFFSET = 2;
+
+// The painter's Rough.js options with the element's over them
+function getElementRoughOptions(el: Path | ZRImage, roughConfig: ResolvedRoughConfig): RoughStyleOption {
+    const style = el.style as PathStyleProps;
+    return extend(
+        extend({}, styleHasFill(style) ? roughConfig.filled : roughConfig.stroked),
+        (style as RoughStyleProps).rough
+    );
+}
+
+/**
+ * How far a sketch can stray from the path it was made from, in element
+ * space. Every vertex and curve control point is jittered by up to
+ * `maxRandomnessOffset` (+0.3 on the second stroke of curves), and straight
+ * lines bow by up to `bowing * maxRandomnessOffset * length / 200`, all scaled
+ * by `roughness`. Rough.js damps roughness on lines longer than 200px, which
+ * caps the effective bowing length at about 230px, then 0.4 × length.
+ */
+function getRoughOvershoot(el: Path | ZRImage, options: RoughStyleOption) {
+    const roughness = options.roughness != null ? options.roughness : DEFAULT_ROUGHNESS;
+    const bowing = options.bowing != null ? options.bowing : DEFAULT_BOWING;
+    const offset = options.maxRandomnessOffset != null
+        ? options.maxRandomnessOffset : DEFAULT_MAX_RANDOMNESS_OFFSET;
+
+    const rect = el.getBoundingRect();
+    const length = Math.sqrt(rect.width * rect.width + rect.height * rect.height);
+    const bowLength = length < 200 ? length : Math.min(length, Math.max(230, length * 0.4));
+
+    return Math.abs(roughness) * (Math.abs(offset) + 0.3 + Math.abs(bowing * offset) * bowLength / 200);
+}
+
+/**
+ * Displayable#getPaintRect grown by the rough overshoot of paths (and their
+ * cut-out shadows, preset passes and state marks), and by the glyph jitter
+ * of hand-drawn text, so dirty rects cover the whole sketch and the
+ * leftovers of the previous one.
+ */
+export function getRoughPaintRect(el: Displayable, scope: RoughScope): BoundingRect {
+    const paintRect = el.getPaintRect();
+    let margin: number;
+    // Cut-out shadows and preset passes are offset in global coordinates
+    let globalMargin = 0;
+    if (!paintRect) {
+        return paintRect;
+    }
+    else if (el instanceof Path) {
+        const options = getElementRoughOptions(el, scope.rough || DEFAULT_ROUGH_CONFIG);
+        margin = getRoughOvershoot(el, options) + getStateMarkMargin(el, options, styleHasFill(el.style));
+        if (getShadowMode(el.style, scope) === 'cutout') {
+            const shadow = getCutoutShadow(el.style);
+            globalMargin = Math.max(Math.abs(shadow.x), Math.abs(shadow.y));
+        }
+        if (scope.preset && styleHasFill(el.style)) {
+            globalMargin = Math.max(globalMargin, getPassesMargin(scope.preset.passes));
+        }
+    }
+    else if (el instanceof ZRImage && getImageOption(el.style, scope)) {
+        margin = getRoughOvershoot(el, getElementRoughOptions(el, scope.rough || DEFAULT_ROUGH_CONFIG));
+    }
+    else if (el instanceof TSpan && scope.text) {
+        margin = getTextJitterMargin(el.getBoundingRect().height, scope.text);
+    }
+    else {
+        return paintRect;
+    }
+    const scale = el.getGlobalScale();
+    margin = margin * Math.max(Math.abs(scale[0]), Math.abs(scale[1])) + globalMargin;
+    // Round out so anti-aliased edges are cleared too
+    const x = Math.floor(paintRect.x - margin);
+    const y = Math.floor(paintRect.y - margin);
+    return new BoundingRect(
+        x,
+        y,
+        Math.ceil(paintRect.x + paintRect.width + margin) - x,
+        Math.ceil(paintRect.y + paintRect.height + margin) - y
+    );
 }
 
 // ─── Main brush dispatcher ────────────────────────────────────────────────────
@@ -438,6 +1385,7 @@ export function brush(
             ctx.restore();
             forceSetStyle = forceSetTransform = true;
             scope.prevElClipPaths = null;
+            scope.revealClips = null;
             scope.allClipped = false;
             scope.prevEl = null;
         }
@@ -475,17 +1423,50 @@ export function brush(
     if (el instanceof Path) {
         if (scope.lastDrawType !== DRAW_TYPE_PATH) { forceSetStyle = true; scope.lastDrawType = DRAW_TYPE_PATH; }
         bindPathAndTextCommonStyle(ctx, el as Path, prevEl as Path, forceSetStyle, scope);
-        brushPath(ctx, el as Path, style);
+        const shadowMode = getShadowMode(style, scope);
+        const cutout = shadowMode === 'cutout';
+        if (cutout) {
+            // The silhouette is the shadow, the canvas one is left out
+            ctx.save();
+            ctx.shadowColor = 'transparent';
+        }
+        const lod = getElementLod(style, scope);
+        const sketchStyle = lod !== 'canvas' ? getSketchStyle(el as Path, style, scope, lod) : null;
+        const alphas = sketchStyle && getSketchAlphas(sketchStyle);
+        const isolated = isIsolated(style, scope);
+        if (alphas && alphas[0] !== alphas[1]) {
+            // Only translucent parts go through the scratch canvas
+            brushPathPart(
+                ctx, el as Path, style, scope, sketchStyle, cutout,
+                shadowMode === 'soft' || isolated || alphas[0] < 1, alphas[0], 'fill'
+            );
+            // One shadow for the whole path, cast by the fill
+            ctx.save();
+            ctx.shadowColor = 'transparent';
+            brushPathPart(ctx, el as Path, style, scope, sketchStyle, cutout, isolated || alphas[1] < 1, alphas[1], 'stroke');
+            ctx.restore();
+        }
+        else {
+            const alpha = alphas ? alphas[0] : 1;
+            brushPathPart(
+                ctx, el as Path, style, scope, sketchStyle, cutout, shadowMode === 'soft' || isolated || alpha < 1, alpha
+            );
+        }
+        cutout && ctx.restore();
     }
     else if (el instanceof TSpan) {
         if (scope.lastDrawType !== DRAW_TYPE_TEXT) { forceSetStyle = true; scope.lastDrawType = DRAW_TYPE_TEXT; }
         bindPathAndTextCommonStyle(ctx, el as TSpan, prevEl as TSpan, forceSetStyle, scope);
-        brushText(ctx, el as TSpan, style);
+        brushRevealed(ctx, el, scope, function () {
+            brushText(ctx, el as TSpan, style, scope);
+        });
     }
     else if (el instanceof ZRImage) {
         if (scope.lastDrawType !== DRAW_TYPE_IMAGE) { forceSetStyle = true; scope.lastDrawType = DRAW_TYPE_IMAGE; }
         bindImageStyle(ctx, el as ZRImage, prevEl as ZRImage, forceSetStyle, scope);
-        brushImage(ctx, el as ZRImage, style);
+        brushRevealed(ctx, el, scope, function () {
+            brushImage(ctx, el as ZRImage, style, scope);
+        });
     }
     else if ((el as IncrementalDisplayable).getTemporalDisplayables) {
         if (scope.lastDrawType !== DRAW_TYPE_INCREMENTAL) { forceSetStyle = true; scope.lastDrawType = DRAW_TYPE_INCREMENTAL; }
@@ -499,6 +1480,20 @@ export function brush(
     el.__isRendered = true;
 }
 
+// Text and images have no pen strokes to trace, reveal clips cut them as usual
+function brushRevealed(ctx: CanvasRenderingContext2D, el: Displayable, scope: BrushScope, draw: () => void) {
+    const revealClips = scope.revealClips;
+    if (!(revealClips && revealClips.length)) {
+        draw();
+        return;
+    }
+    ctx.save();
+    clipByPaths(ctx, revealClips);
+    setContextTransform(ctx, el);
+    draw();
+    ctx.restore();
+}
+
 function brushIncremental(
     ctx: CanvasRenderingContext2D,
     el: IncrementalDisplayable,
@@ -509,7 +1504,9 @@ function brushIncremental(
     ctx.save();
     const innerScope: BrushScope = {
         prevElClipPaths: null, prevEl: null, allClipped: false,
-        viewWidth: scope.viewWidth, viewHeight: scope.viewHeight, inHover: scope.inHover
+        viewWidth: scope.viewWidth, viewHeight: scope.viewHeight, inHover: scope.inHover,
+        seed: scope.seed, idBase: scope.idBase, rough: scope.rough, revealClip: scope.revealClip, lod: scope.lod,
+        text: scope.text, preset: scope.preset
     };
     let i, len;
     for (i = el.getCursor(), len = displayables.length; i < len; i++) {
@@ -3,17 +3,13 @@ import { RadialGradientObject } from 'zrender/lib/graphic/RadialGradient';
 import { GradientObject } from 'zrender/lib/graphic/Gradient';
 import { RectLike } from 'zrender/lib/core/BoundingRect';
 import Path from 'zrender/lib/graphic/Path';
+import { fastLerp, parse, stringify } from 'zrender/lib/tool/color';
 
 function isSafeNum(num: number) {
     return isFinite(num);
 }
 
-export function createLinearGradient(
-    this: void,
-    ctx: CanvasRenderingContext2D,
-    obj: LinearGradientObject,
-    rect: RectLike
-) {
+export function getLinearGradientCoords(obj: LinearGradientObject, rect: RectLike) {
     let x = obj.x == null ? 0 : obj.x;
     let x2 = obj.x2 == null ? 1 : obj.x2;
     let y = obj.y == null ? 0 : obj.y;
@@ -31,17 +27,23 @@ export function createLinearGradient(
     y = isSafeNum(y) ? y : 0;
     y2 = isSafeNum(y2) ? y2 : 0;
 
-    const canvasGradient = ctx.createLinearGradient(x, y, x2, y2);
-
-    return canvasGradient;
+    return { x, y, x2, y2 };
 }
 
-export function createRadialGradient(
+export function createLinearGradient(
     this: void,
     ctx: CanvasRenderingContext2D,
-    obj: RadialGradientObject,
+    obj: LinearGradientObject,
     rect: RectLike
 ) {
+    const { x, y, x2, y2 } = getLinearGradientCoords(obj, rect);
+
+    const canvasGradient = ctx.createLinearGradient(x, y, x2, y2);
+
+    return canvasGradient;
+}
+
+export function getRadialGradientCoords(obj: RadialGradientObject, rect: RectLike) {
     const width = rect.width;
     const height = rect.height;
     const min = Math.min(width, height);
@@ -60,6 +62,17 @@ export function createRadialGradient(
     y = isSafeNum(y) ? y : 0.5;
     r = r >= 0 && isSafeNum(r) ? r : 0.5;
 
+    return { x, y, r };
+}
+
+export function createRadialGradient(
+    this: void,
+    ctx: CanvasRenderingContext2D,
+    obj: RadialGradientObject,
+    rect: RectLike
+) {
+    const { x, y, r } = getRadialGradientCoords(obj, rect);
+
     const canvasGradient = ctx.createRadialGradient(x, y, 0, x, y, r);
 
     return canvasGradient;
@@ -79,6 +92,55 @@ export function getCanvasGradient(this: void, ctx: CanvasRenderingContext2D, obj
     return canvasGradient;
 }
 
+function getSortedColorStops(obj: GradientObject) {
+    return obj.colorStops.slice().sort((a, b) => a.offset - b.offset);
+}
+
+/**
+ * Colour of the gradient at `t` (0 at the first colour stop position, 1 at
+ * the last), interpolated between the neighbouring colour stops.
+ */
+export function sampleGradientColor(obj: GradientObject, t: number): string {
+    const stops = getSortedColorStops(obj);
+    if (!stops.length) {
+        return 'none';
+    }
+    if (t <= stops[0].offset) {
+        return stops[0].color;
+    }
+    for (let i = 1; i < stops.length; i++) {
+        const prev = stops[i - 1];
+        const next = stops[i];
+        if (t <= next.offset) {
+            const span = next.offset - prev.offset;
+            const local = span > 0 ? (t - prev.offset) / span : 1;
+            return stringify(fastLerp(local, [parse(prev.color), parse(next.color)]), 'rgba');
+        }
+    }
+    return stops[stops.length - 1].color;
+}
+
+/**
+ * Mean colour of the gradient, used where it has to be drawn as a single fill.
+ */
+export function averageGradientColor(obj: GradientObject, sampleCount?: number): string {
+    sampleCount = sampleCount || 16;
+    const sum = [0, 0, 0, 0];
+    for (let i = 0; i < sampleCount; i++) {
+        const rgba = parse(sampleGradientColor(obj, (i + 0.5) / sampleCount));
+        if (!rgba) {
+            continue;
+        }
+        for (let k = 0; k < 4; k++) {
+            sum[k] += rgba[k];
+        }
+    }
+    for (let k = 0; k < 4; k++) {
+        sum[k] /= sampleCount;
+    }
+    return stringify(sum, 'rgba');
+}
+
 export function isClipPathChanged(clipPaths: Path[], prevClipPaths: Path[]): boolean {
     if (clipPaths === prevClipPaths || (!clipPaths && !prevClipPaths)) {
         return false;
@@ -0,0 +1,209 @@
+import { platformApi } from 'zrender/lib/core/platform';
+import type { ImageLike } from 'zrender/lib/core/types';
+
+// Sketch treatments of images: a pencil or posterize filter done on an
+// offscreen canvas, and hachure lines following the image's luminance. Both
+// read the pixels back, which cross-origin images without CORS headers do not
+// allow; those are drawn as they are.
+
+/**
+ * Sketch treatment of an image element (`rough.image`).
+ */
+export interface RoughImageOption {
+    // Sketched frame around the image
+    frame?: boolean
+    // 'pencil': greyscale, with edges drawn dark like pencil lines.
+    // 'posterize': a few flat levels per colour channel.
+    filter?: 'pencil' | 'posterize'
+    // Levels per channel of the posterize filter
+    levels?: number
+    // Replace the image with hachure lines, denser where it is darker
+    hachure?: boolean
+    // Distance between hachure lines, in px
+    hachureGap?: number
+}
+
+// Source rectangle of the image, [x, y, width, height]
+export type ImageSourceRect = number[];
+
+const DEFAULT_POSTERIZE_LEVELS = 4;
+const DEFAULT_HACHURE_GAP = 4;
+// Longest side of the offscreen copy filters work on
+const MAX_FILTER_SIZE = 1024;
+// Luminance under which cells get horizontal, and also vertical, lines
+const HACHURE_LIGHT = 0.75;
+const HACHURE_DARK = 0.4;
+
+// Results per image, for the last few sizes and settings
+const MAX_RESULTS_PER_IMAGE = 8;
+const resultCaches = new WeakMap<ImageLike, Record<string, unknown>>();
+
+function getCached<T>(image: ImageLike, key: string, compute: () => T): T {
+    let cache = resultCaches.get(image);
+    if (!cache || Object.keys(cache).length >= MAX_RESULTS_PER_IMAGE) {
+        resultCaches.set(image, cache = {});
+    }
+    if (!(key in cache)) {
+        cache[key] = compute();
+    }
+    return cache[key] as T;
+}
+
+function isSourceChanging(image: ImageLike) {
+    // Every frame of a video, every repaint of a canvas is a new picture
+    return !(image as HTMLImageElement).complete;
+}
+
+function readPixels(
+    image: ImageLike,
+    sourceRect: ImageSourceRect,
+    width: number,
+    height: number
+): { canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D, data: ImageData } {
+    const canvas = platformApi.createCanvas() as HTMLCanvasElement;
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    ctx.drawImage(image, sourceRect[0], sourceRect[1], sourceRect[2], sourceRect[3], 0, 0, width, height);
+    try {
+        return { canvas, ctx, data: ctx.getImageData(0, 0, width, height) };
+    }
+    catch (e) {
+        // Tainted by a cross-origin image
+        return null;
+    }
+}
+
+function luminance(pixels: Uint8ClampedArray, i: number) {
+    return 0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2];
+}
+
+function pencilFilter(data: ImageData) {
+    const { width, height } = data;
+    const pixels = data.data;
+    const lum = new Float32Array(width * height);
+    for (let i = 0; i < lum.length; i++) {
+        lum[i] = luminance(pixels, i * 4);
+    }
+    const at = (x: number, y: number) => lum[
+        Math.min(Math.max(y, 0), height - 1) * width + Math.min(Math.max(x, 0), width - 1)
+    ];
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            // Sobel gradient: edges become dark strokes
+            const gx = at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1)
+                - at(x - 1, y - 1) - 2 * at(x - 1, y) - at(x - 1, y + 1);
+            const gy = at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1)
+                - at(x - 1, y - 1) - 2 * at(x, y - 1) - at(x + 1, y - 1);
+            const edge = 255 - Math.min(Math.sqrt(gx * gx + gy * gy), 255);
+            // Light graphite shading of the darker areas
+            const shade = 255 - (255 - lum[y * width + x]) * 0.35;
+            const i = (y * width + x) * 4;
+            pixels[i] = pixels[i + 1] = pixels[i + 2] = Math.min(edge, shade);
+        }
+    }
+}
+
+function posterizeFilter(data: ImageData, levels: number) {
+    const pixels = data.data;
+    const step = 255 / (Math.max(levels, 2) - 1);
+    for (let i = 0; i < pixels.length; i += 4) {
+        pixels[i] = Math.round(pixels[i] / step) * step;
+        pixels[i + 1] = Math.round(pixels[i + 1] / step) * step;
+        pixels[i + 2] = Math.round(pixels[i + 2] / step) * step;
+    }
+}
+
+/**
+ * The filtered image at the size it is drawn (in device pixels), or null if
+ * its pixels cannot be read.
+ */
+export function getFilteredImage(
+    image: ImageLike,
+    sourceRect: ImageSourceRect,
+    width: number,
+    height: number,
+    option: RoughImageOption
+): HTMLCanvasElement {
+    const scale = Math.min(1, MAX_FILTER_SIZE / Math.max(width, height));
+    const w = Math.max(Math.round(width * scale), 1);
+    const h = Math.max(Math.round(height * scale), 1);
+    const levels = option.levels || DEFAULT_POSTERIZE_LEVELS;
+    const compute = () => {
+        const read = readPixels(image, sourceRect, w, h);
+        if (!read) {
+            return null;
+        }
+        option.filter === 'pencil' ? pencilFilter(read.data) : posterizeFilter(read.data, levels);
+        read.ctx.putImageData(read.data, 0, 0);
+        return read.canvas;
+    };
+    return isSourceChanging(image)
+        ? compute()
+        : getCached(image, [option.filter, levels, w, h, sourceRect.join(',')].join(':'), compute);
+}
+
+/**
+ * Hachure lines following the luminance of the image, as an SVG path in the
+ * image's `width` × `height` box at (x, y). Every cell of `gap` px gets a
+ * horizontal line if it is darker than light, and a vertical one too if it
+ * is dark; runs of cells make one line. Null if the pixels cannot be read.
+ */
+export function getLuminanceHachurePath(
+    image: ImageLike,
+    sourceRect: ImageSourceRect,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    option: RoughImageOption
+): string {
+    const gap = option.hachureGap > 0 ? option.hachureGap : DEFAULT_HACHURE_GAP;
+    const cols = Math.max(Math.round(width / gap), 1);
+    const rows = Math.max(Math.round(height / gap), 1);
+    const compute = () => {
+        // Drawn down to one pixel per cell, the browser averages each cell
+        const read = readPixels(image, sourceRect, cols, rows);
+        if (!read) {
+            return null;
+        }
+        const pixels = read.data.data;
+        const cellLum = (col: number, row: number) => {
+            const i = (row * cols + col) * 4;
+            // Transparent cells count as white
+            return 1 - (1 - luminance(pixels, i) / 255) * pixels[i + 3] / 255;
+        };
+        const cellW = width / cols;
+        const cellH = height / rows;
+        const parts: string[] = [];
+        const addRuns = (count: number, length: number, isDark: (i: number, k: number) => boolean,
+            line: (i: number, start: number, end: number) => string
+        ) => {
+            for (let i = 0; i < count; i++) {
+                let start = -1;
+                for (let k = 0; k <= length; k++) {
+                    const dark = k < length && isDark(i, k);
+                    if (dark && start < 0) {
+                        start = k;
+                    }
+                    else if (!dark && start >= 0) {
+                        parts.push(line(i, start, k));
+                        start = -1;
+                    }
+                }
+            }
+        };
+        addRuns(rows, cols, (row, col) => cellLum(col, row) < HACHURE_LIGHT, function (row, start, end) {
+            const ly = y + (row + 0.5) * cellH;
+            return 'M' + (x + start * cellW) + ' ' + ly + 'L' + (x + end * cellW) + ' ' + ly;
+        });
+        addRuns(cols, rows, (col, row) => cellLum(col, row) < HACHURE_DARK, function (col, start, end) {
+            const lx = x + (col + 0.5) * cellW;
+            return 'M' + lx + ' ' + (y + start * cellH) + 'L' + lx + ' ' + (y + end * cellH);
+        });
+        return parts.join('');
+    };
+    return isSourceChanging(image)
+        ? compute()
+        : getCached(image, ['hachure', x, y, width, height, gap, sourceRect.join(',')].join(':'), compute);
+}
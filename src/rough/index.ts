@@ -1,4 +1,41 @@
 import { registerPainter } from 'zrender/lib/zrender';
+import { init as initECharts } from 'echarts/core';
+import { registerPostUpdate } from 'echarts/lib/core/echarts';
+import type { EChartsInitOpts, EChartsType } from 'echarts/core';
 import RPainter from './Painter';
+import type { RoughPainterOption } from './painterOptions';
+import RSVGPainter from './SVGPainter';
+import { applyRoughStyles } from './modelStyle';
 
 registerPainter('rough', RPainter);
+registerPainter('rough-svg', RSVGPainter);
+registerPostUpdate(applyRoughStyles);
+
+/**
+ * `echarts.init` drops init options it does not know about, so the rough
+ * specific ones (`seed`, `rough`, ...) are applied to the painter right after
+ * the instance is created, before anything has been painted.
+ */
+export function init(
+    dom: HTMLElement | null,
+    theme?: string | object,
+    opts?: EChartsInitOpts & RoughPainterOption
+): EChartsType {
+    opts = opts || {};
+    const chart = initECharts(dom, theme, opts);
+    const painter = chart.getZr().painter;
+    if (painter instanceof RPainter || painter instanceof RSVGPainter) {
+        // configure() only picks up the rough specific keys
+        painter.configure(opts);
+    }
+    return chart;
+}
+
+export { registerPreset } from './preset';
+
+export type { RoughPainterOption } from './painterOptions';
+export type { RoughConfig, RoughLodMode, RoughLodOption, RoughStyleOption } from './roughConfig';
+export type { RoughTextOption } from './text';
+export type { RoughFontOption } from './font';
+export type { RoughPreset, RoughPresetPass } from './preset';
+export type { RoughWiggleOption } from './wiggle';
@@ -0,0 +1,159 @@
+import type SeriesModel from 'echarts/types/src/model/Series';
+import type GlobalModel from 'echarts/types/src/model/Global';
+import type ExtensionAPI from 'echarts/types/src/core/ExtensionAPI';
+import { getECData } from 'echarts/lib/util/innerStore';
+import Element from 'zrender/lib/Element';
+import Path, { PathStyleProps } from 'zrender/lib/graphic/Path';
+import ZRImage, { ImageStyleProps } from 'zrender/lib/graphic/Image';
+import { extend } from 'zrender/lib/core/util';
+import { getLodMode, RoughStyleOption, RoughStyleProps } from './roughConfig';
+import { DecalOption, setPatternDecal } from './decal';
+import { PatternObject } from 'zrender/lib/graphic/Pattern';
+
+// ECharts item models only hand known style keys to zrender, so `rough`
+// settings written under itemStyle / lineStyle / areaStyle (and their
+// emphasis / blur / select variants) are copied onto the element styles
+// after every update.
+
+const STATES = ['emphasis', 'blur', 'select'] as const;
+
+type StyleType = 'itemStyle' | 'lineStyle' | 'areaStyle';
+
+type RoughModel = {
+    get(path: string[], ignoreParent?: boolean): unknown
+};
+
+function getStyleType(el: Path | ZRImage): StyleType {
+    // Line series area and line, graph / lines edges
+    if (el.type === 'ec-polygon') {
+        return 'areaStyle';
+    }
+    if (el.type === 'ec-polyline' || el.type === 'ec-line') {
+        return 'lineStyle';
+    }
+    return 'itemStyle';
+}
+
+// Symbols and other composite items keep the data index on their group.
+function findItemECData(el: Element, root: object) {
+    for (let node = el; node && node !== root; node = node.parent) {
+        const ecData = getECData(node);
+        if (ecData.dataIndex != null) {
+            return ecData;
+        }
+    }
+}
+
+function setRough(style: (PathStyleProps | ImageStyleProps) & RoughStyleProps, rough: RoughStyleOption) {
+    if (style.rough === rough) {
+        return false;
+    }
+    // Leave the key out rather than setting it to undefined: zrender merges
+    // state styles key by key, an explicit undefined would wipe the normal one.
+    if (rough == null) {
+        delete style.rough;
+    }
+    else {
+        style.rough = rough;
+    }
+    return true;
+}
+
+// Data item settings refine the series ones instead of replacing them
+function getRough(model: RoughModel, seriesModel: RoughModel, path: string[]): RoughStyleOption {
+    const seriesRough = seriesModel.get(path) as RoughStyleOption;
+    const itemRough = model !== seriesModel && model.get(path, true) as RoughStyleOption;
+    return itemRough
+        ? extend(extend({}, seriesRough), itemRough)
+        : seriesRough;
+}
+
+// Series level budgets are compared with the number of data items, the
+// element keeps the resulting mode.
+function resolveLod(rough: RoughStyleOption, dataCount: number): RoughStyleOption {
+    const lod = rough && rough.lod;
+    if (!lod || typeof lod !== 'object') {
+        return rough;
+    }
+    rough = extend({}, rough);
+    rough.lod = getLodMode(lod, dataCount);
+    return rough;
+}
+
+function isSameRough(a: RoughStyleOption, b: RoughStyleOption) {
+    for (const key in a) {
+        if (a[key as keyof RoughStyleOption] !== b[key as keyof RoughStyleOption]) {
+            return false;
+        }
+    }
+    for (const key in b) {
+        if (!(key in a)) {
+            return false;
+        }
+    }
+    return true;
+}
+
+function applySeriesRoughStyles(seriesModel: SeriesModel, api: ExtensionAPI) {
+    const view = api.getViewOfSeriesModel(seriesModel);
+    if (!view) {
+        return;
+    }
+    const root = view.group;
+    const dataCount = seriesModel.getData().count();
+
+    root.traverse(function (el) {
+        // Image symbols and pictorial bars are sketched after their itemStyle
+        if (!(el instanceof Path || el instanceof ZRImage)) {
+            return;
+        }
+        const ecData = findItemECData(el, root);
+        const data = ecData && seriesModel.getData(ecData.dataType);
+        const model: RoughModel = data && ecData.dataIndex < data.count()
+            ? data.getItemModel(ecData.dataIndex)
+            : seriesModel;
+        const styleType = getStyleType(el);
+
+        const decalPattern = (el.style as PathStyleProps).decal as PatternObject;
+        if (decalPattern) {
+            const decalData = data || seriesModel.getData();
+            setPatternDecal(decalPattern, (data && ecData.dataIndex < data.count()
+                ? data.getItemVisual(ecData.dataIndex, 'decal')
+                : decalData.getVisual('decal')) as DecalOption);
+        }
+
+        const normalRough = resolveLod(getRough(model, seriesModel, [styleType, 'rough']), dataCount);
+        let changed = false;
+        if (!(el.currentStates && el.currentStates.length)) {
+            const prevRough = (el.style as RoughStyleProps).rough;
+            if (!prevRough || !normalRough || !isSameRough(prevRough, normalRough)) {
+                changed = setRough(el.style, normalRough);
+            }
+        }
+        for (let i = 0; i < STATES.length; i++) {
+            const stateName = STATES[i];
+            const rough = getRough(model, seriesModel, [stateName, styleType, 'rough']);
+            const state = el.states[stateName];
+            if (rough) {
+                const stateObj = state || el.ensureState(stateName);
+                stateObj.style = stateObj.style || {};
+                // State settings refine the normal ones instead of replacing them
+                const prevRough = (stateObj.style as RoughStyleProps).rough;
+                const mergedRough = resolveLod(extend(extend({}, normalRough), rough), dataCount);
+                if (!prevRough || !isSameRough(prevRough, mergedRough)) {
+                    changed = setRough(stateObj.style, mergedRough) || changed;
+                }
+            }
+            else if (state && state.style) {
+                changed = setRough(state.style, undefined) || changed;
+            }
+        }
+        changed && el.markRedraw();
+    });
+}
+
+export function applyRoughStyles(ecModel: GlobalModel, api: ExtensionAPI) {
+    ecModel.eachSeries(function (seriesModel) {
+        applySeriesRoughStyles(seriesModel, api);
+    });
+}
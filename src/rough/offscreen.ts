@@ -0,0 +1,64 @@
+import { platformApi } from 'zrender/lib/core/platform';
+import type { ZRCanvasRenderingContext } from 'zrender/lib/core/types';
+import type BoundingRect from 'zrender/lib/core/BoundingRect';
+
+// Scratch canvas an element is sketched on before it is composited onto its
+// layer in a single drawImage. Effects the canvas applies per draw call (a
+// shadow, alpha, a blend mode) are then applied once to the whole sketch
+// instead of to every pen stroke and hachure line. The scratch is shared:
+// only the region the element covers is copied and cleared again.
+
+let scratch: HTMLCanvasElement;
+
+function getScratch(width: number, height: number): HTMLCanvasElement {
+    if (!scratch) {
+        scratch = platformApi.createCanvas() as HTMLCanvasElement;
+        scratch.width = scratch.height = 0;
+    }
+    // Only grows, resizing clears it
+    if (scratch.width < width || scratch.height < height) {
+        scratch.width = Math.max(scratch.width, width);
+        scratch.height = Math.max(scratch.height, height);
+    }
+    return scratch;
+}
+
+/**
+ * Calls `draw` with a blank context of the same resolution as `ctx`, then
+ * draws the part under `rect` (global coordinates, where `draw` paints) onto
+ * `ctx` with its current state: clip, alpha, blend mode and shadow. `draw`
+ * sets its own transform; line caps and joins are carried over.
+ */
+export function drawComposited(
+    ctx: CanvasRenderingContext2D,
+    rect: BoundingRect,
+    draw: (scratchCtx: CanvasRenderingContext2D) => void
+) {
+    const canvas = ctx.canvas;
+    const dpr = (ctx as ZRCanvasRenderingContext).dpr || 1;
+    const x = Math.max(Math.floor(rect.x * dpr), 0);
+    const y = Math.max(Math.floor(rect.y * dpr), 0);
+    const width = Math.min(Math.ceil((rect.x + rect.width) * dpr), canvas.width) - x;
+    const height = Math.min(Math.ceil((rect.y + rect.height) * dpr), canvas.height) - y;
+    if (width <= 0 || height <= 0) {
+        return;
+    }
+
+    const scratchCtx = getScratch(canvas.width, canvas.height).getContext('2d') as ZRCanvasRenderingContext;
+    scratchCtx.dpr = dpr;
+    scratchCtx.save();
+    scratchCtx.lineCap = ctx.lineCap;
+    scratchCtx.lineJoin = ctx.lineJoin;
+    scratchCtx.miterLimit = ctx.miterLimit;
+    scratchCtx.lineWidth = ctx.lineWidth;
+    scratchCtx.fillStyle = ctx.fillStyle;
+    scratchCtx.strokeStyle = ctx.strokeStyle;
+    draw(scratchCtx);
+    scratchCtx.restore();
+
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.drawImage(scratch, x, y, width, height, x, y, width, height);
+    ctx.restore();
+    scratchCtx.clearRect(x, y, width, height);
+}
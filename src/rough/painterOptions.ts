@@ -0,0 +1,219 @@
+import { guid } from 'zrender/lib/core/util';
+import tokens from 'echarts/lib/visual/tokens';
+import type { RoughScope } from './graphic';
+import { DEFAULT_SEED } from './seed';
+import { createRoughTextOption, ResolvedRoughTextOption, RoughTextOption } from './text';
+import { normalizeFontOption, RoughFontOption, watchPainterFont } from './font';
+import { createPresetRoughConfig, resolvePreset, RoughPreset } from './preset';
+import {
+    getChartBackground, isTransparentBackground, normalizePaperOption, RoughBackground, RoughPaperOption,
+    RoughPaperType
+} from './paper';
+import { getWiggleSeed, normalizeWiggleOption, RoughWiggleOption, startWiggle } from './wiggle';
+import { ResolvedRoughConfig, RoughConfig, RoughLodOption } from './roughConfig';
+
+// Options specific to the rough renderers. `echarts.init` only forwards the
+// standard init options to the painter, so these can also be applied after
+// creation with `painter.configure()` (which is what `init()` in index.ts does).
+export interface RoughPainterOption {
+    // Base seed every element's sketch is derived from. Changing it gives the
+    // whole chart a different, but still stable, hand-drawn look.
+    seed?: number
+    // Rough.js defaults, with separate presets for filled and stroke-only paths
+    rough?: RoughConfig
+    // Apply clip paths that are still animating (entry reveal animations).
+    // When false, elements show their final geometry right away.
+    revealClip?: boolean
+    // Level-of-detail budget per layer, in sketched shapes, none by default.
+    // Layers over it are drawn at the cheaper level and painted across
+    // several frames. Layers can have their own through
+    // `zr.configLayer(zlevel, { lod })`.
+    lod?: RoughLodOption
+    // Hand-drawn text: glyphs jittered one by one, `true` for the defaults
+    text?: boolean | RoughTextOption
+    // Default font family of the chart text, drawn once it has loaded
+    font?: string | RoughFontOption
+    // Named look (see preset.ts) or a preset object. The other options
+    // refine it.
+    preset?: string | RoughPreset
+    // Paper the chart is drawn on (see paper.ts), where the ECharts option
+    // sets no background. A paper type for its defaults.
+    paper?: RoughPaperType | RoughPaperOption
+    // Stop-motion boil (see wiggle.ts): the sketches are redrawn with the
+    // next of a few seeds several times a second. `true` for the defaults.
+    wiggle?: boolean | RoughWiggleOption
+}
+
+/**
+ * The rough options of a painter, resolved. Both the canvas and the SVG
+ * painter keep theirs in one of these and repaint after `configure`.
+ */
+export default class RoughPainterOptions {
+
+    // The painter's own option object, updated by configure
+    readonly opts: RoughPainterOption
+
+    // First element id of the painter, see getElementSeed
+    readonly idBase = guid()
+
+    seed: number
+
+    preset: RoughPreset
+
+    roughConfig: ResolvedRoughConfig
+
+    textOption: ResolvedRoughTextOption
+
+    paper: RoughPaperOption
+
+    // As set by ECharts, before the paper or preset background replaces it
+    chartBackgroundColor: RoughBackground
+
+    // Families the font option draws, once its font has loaded
+    fontFamily: string = null
+
+    private _root: HTMLElement
+
+    private _fontOption: RoughFontOption
+
+    private _wiggleFrame = 0
+
+    private _stopWiggle: () => void
+
+    private _repaint: () => void
+
+    /**
+     * `repaint` redraws everything the painter drew, for wiggle frames and
+     * fonts that have loaded.
+     */
+    constructor(root: HTMLElement, opts: RoughPainterOption, repaint: () => void) {
+        this._root = root;
+        this.opts = opts;
+        this._repaint = repaint;
+        this.seed = opts.seed == null ? DEFAULT_SEED : opts.seed;
+        this.preset = resolvePreset(opts.preset);
+        this.paper = normalizePaperOption(opts.paper);
+        this.roughConfig = createPresetRoughConfig(this.preset, opts.rough);
+        this.textOption = this._createTextOption();
+        const font = opts.font || this.preset && this.preset.font;
+        font && this._setFont(font);
+        this._setWiggle(opts.wiggle);
+    }
+
+    /**
+     * Applies the keys present in `opts`. Returns whether the chart
+     * background has to be set again.
+     */
+    configure(opts: RoughPainterOption): boolean {
+        const ownOpts = this.opts;
+        if ('seed' in opts) {
+            ownOpts.seed = opts.seed;
+            this.seed = opts.seed == null ? DEFAULT_SEED : opts.seed;
+        }
+        if ('preset' in opts) {
+            ownOpts.preset = opts.preset;
+            this.preset = resolvePreset(opts.preset);
+        }
+        if ('rough' in opts) {
+            ownOpts.rough = opts.rough;
+        }
+        if ('rough' in opts || 'preset' in opts) {
+            this.roughConfig = createPresetRoughConfig(this.preset, ownOpts.rough);
+        }
+        if ('revealClip' in opts) {
+            ownOpts.revealClip = opts.revealClip;
+        }
+        if ('lod' in opts) {
+            ownOpts.lod = opts.lod;
+        }
+        if ('text' in opts) {
+            ownOpts.text = opts.text;
+        }
+        if ('text' in opts || 'preset' in opts) {
+            this.textOption = this._createTextOption();
+        }
+        if ('font' in opts) {
+            ownOpts.font = opts.font;
+        }
+        if ('font' in opts || 'preset' in opts) {
+            this._setFont(ownOpts.font || this.preset && this.preset.font);
+        }
+        if ('paper' in opts) {
+            ownOpts.paper = opts.paper;
+            this.paper = normalizePaperOption(opts.paper);
+        }
+        if ('wiggle' in opts) {
+            ownOpts.wiggle = opts.wiggle;
+            this._setWiggle(opts.wiggle);
+        }
+        return 'paper' in opts || 'preset' in opts;
+    }
+
+    /**
+     * Records the background set by ECharts and returns the one to draw.
+     */
+    getBackground(backgroundColor: RoughBackground): RoughBackground {
+        this.chartBackgroundColor = backgroundColor;
+        return getChartBackground(backgroundColor, this.paper, this.preset && this.preset.background);
+    }
+
+    /**
+     * The background of an export (`getDataURL`, `saveAsImage`). ECharts asks
+     * for the chart's own colour, or white where the chart has none: those,
+     * and no colour at all, get the background on screen, paper or preset
+     * background included.
+     * Other colours are drawn as asked.
+     */
+    getExportBackground(backgroundColor: RoughBackground): RoughBackground {
+        const chartBackground = this.chartBackgroundColor;
+        const asOnScreen = !backgroundColor || backgroundColor === chartBackground
+            || backgroundColor === tokens.color.neutral00 && isTransparentBackground(chartBackground);
+        const background = getChartBackground(
+            asOnScreen ? chartBackground : backgroundColor, this.paper, this.preset && this.preset.background
+        );
+        return isTransparentBackground(background) ? backgroundColor : background;
+    }
+
+    setScope(scope: RoughScope) {
+        scope.seed = getWiggleSeed(this.seed, this._wiggleFrame);
+        scope.idBase = this.idBase;
+        scope.rough = this.roughConfig;
+        scope.revealClip = this.opts.revealClip !== false;
+        scope.text = this.textOption;
+        scope.preset = this.preset;
+        scope.fontFamily = this.fontFamily;
+    }
+
+    dispose() {
+        this._setWiggle(false);
+    }
+
+    private _createTextOption() {
+        const text = this.opts.text;
+        return createRoughTextOption(text != null ? text : this.preset && this.preset.text);
+    }
+
+    // The chart is repainted with the font once it has loaded
+    private _setFont(font: string | RoughFontOption) {
+        const fontOption = this._fontOption = normalizeFontOption(font);
+        this.fontFamily = null;
+        fontOption && watchPainterFont(fontOption, family => {
+            if (this._fontOption === fontOption) {
+                this.fontFamily = family;
+                this._repaint();
+            }
+        });
+    }
+
+    // Server side rendering has no root and renders the still chart
+    private _setWiggle(wiggle: boolean | RoughWiggleOption) {
+        this._stopWiggle && this._stopWiggle();
+        this._stopWiggle = null;
+        this._wiggleFrame = 0;
+        const option = this._root && normalizeWiggleOption(wiggle);
+        option && (this._stopWiggle = startWiggle(option, frame => {
+            this._wiggleFrame = frame;
+            this._repaint();
+        }));
+    }
+}
@@ -0,0 +1,327 @@
+import rough from 'roughjs';
+import { Random } from 'roughjs/bin/math';
+import type { Drawable } from 'roughjs/bin/core';
+import { platformApi } from 'zrender/lib/core/platform';
+import { indexOf, isObject, isString } from 'zrender/lib/core/util';
+import type { GradientObject } from 'zrender/lib/graphic/Gradient';
+import type { PatternObject } from 'zrender/lib/graphic/Pattern';
+import { createVNode, SVGVNode, SVGVNodeAttrs } from 'zrender/lib/svg/core';
+
+// Procedural paper backgrounds: ruled notebook lines, graph paper, grain
+// noise and a torn-edge card. The layout (sketched lines, card outline) is
+// generated from the paper's seed, so it is the same on every repaint and in
+// both renderers, and cached per size. The canvas renderer draws it once into
+// a cached canvas that layers copy from; the SVG renderer turns it into nodes,
+// with grain as a turbulence filter.
+
+export type RoughPaperType = 'plain' | 'ruled' | 'graph' | 'grain' | 'torn';
+
+/**
+ * A paper background, given where a background colour is: the ECharts
+ * `backgroundColor`, `zr.setBackgroundColor()`, or the `paper` painter
+ * option.
+ */
+export interface RoughPaperOption {
+    paper: RoughPaperType
+    // Colour of the sheet
+    color?: string
+    // Colour of ruled and graph lines
+    lineColor?: string
+    // Distance between lines, in px
+    spacing?: number
+    // Strength of the grain noise, from 0 to 1
+    grain?: number
+    seed?: number
+}
+
+export type RoughBackground = string | GradientObject | PatternObject | RoughPaperOption;
+
+const PAPER_TYPES: RoughPaperType[] = ['plain', 'ruled', 'graph', 'grain', 'torn'];
+
+const DEFAULT_PAPER_COLOR = '#fdfbf4';
+const DEFAULT_LINE_COLOR = '#b9d0e8';
+const MARGIN_LINE_COLOR = '#e8a3a3';
+const DEFAULT_SPACING: Partial<Record<RoughPaperType, number>> = {
+    ruled: 28,
+    graph: 20
+};
+const DEFAULT_GRAIN: Partial<Record<RoughPaperType, number>> = {
+    grain: 0.12,
+    torn: 0.05
+};
+// Every fifth graph line is a major one
+const GRAPH_MAJOR_EVERY = 5;
+// Inset of the torn card, and how deep its edge is torn
+const TORN_INSET = 12;
+const TORN_DEPTH = 4;
+const TORN_STEP = 6;
+const TORN_SHADOW = 'rgba(0, 0, 0, 0.25)';
+const TORN_SHADOW_BLUR = 6;
+// Side of the canvas grain tile, in device pixels
+const GRAIN_TILE_SIZE = 128;
+
+const roughGenerator = rough.generator();
+
+export function isPaperObject(val: unknown): val is RoughPaperOption {
+    return isObject(val) && isString((val as RoughPaperOption).paper);
+}
+
+export function normalizePaperOption(paper: RoughPaperType | RoughPaperOption): RoughPaperOption {
+    const option = isString(paper) ? { paper } : paper || null;
+    if (option && indexOf(PAPER_TYPES, option.paper) < 0) {
+        throw new Error('Unknown rough paper "' + option.paper + '", expected one of ' + PAPER_TYPES.join(', ') + '.');
+    }
+    return option;
+}
+
+export function isTransparentBackground(background: RoughBackground) {
+    return !background || background === 'transparent' || background === 'none';
+}
+
+/**
+ * The chart background: the ECharts option's, or, where the option leaves it
+ * transparent, the painter's paper and then the preset's background.
+ */
+export function getChartBackground(
+    background: RoughBackground,
+    paper: RoughPaperOption,
+    presetBackground: RoughBackground
+): RoughBackground {
+    return isTransparentBackground(background) && (paper || presetBackground) || background;
+}
+
+interface PaperLine {
+    drawable: Drawable
+}
+
+interface PaperLayout {
+    color: string
+    // Outline of a torn card, null when the sheet fills the chart
+    card: number[][]
+    lines: PaperLine[]
+    grain: number
+    seed: number
+}
+
+function sketchLine(x1: number, y1: number, x2: number, y2: number, color: string, width: number, seed: number) {
+    return {
+        drawable: roughGenerator.line(x1, y1, x2, y2, {
+            stroke: color,
+            strokeWidth: width,
+            roughness: 0.3,
+            bowing: 0.4,
+            disableMultiStroke: true,
+            seed
+        })
+    };
+}
+
+function layoutTornCard(width: number, height: number, random: Random): number[][] {
+    const points: number[][] = [];
+    const jitter = () => random.next() * TORN_DEPTH;
+    const right = width - TORN_INSET;
+    const bottom = height - TORN_INSET;
+    for (let x = TORN_INSET; x < right; x += TORN_STEP) {
+        points.push([x, TORN_INSET + jitter()]);
+    }
+    for (let y = TORN_INSET; y < bottom; y += TORN_STEP) {
+        points.push([right - jitter(), y]);
+    }
+    for (let x = right; x > TORN_INSET; x -= TORN_STEP) {
+        points.push([x, bottom - jitter()]);
+    }
+    for (let y = bottom; y > TORN_INSET; y -= TORN_STEP) {
+        points.push([TORN_INSET + jitter(), y]);
+    }
+    return points;
+}
+
+function layoutPaper(option: RoughPaperOption, width: number, height: number): PaperLayout {
+    const type = option.paper;
+    const seed = option.seed || 1;
+    const lineColor = option.lineColor || DEFAULT_LINE_COLOR;
+    const spacing = option.spacing > 0 ? option.spacing : DEFAULT_SPACING[type];
+    const lines: PaperLine[] = [];
+    let lineSeed = seed;
+    if (type === 'ruled') {
+        for (let y = spacing * 2; y < height; y += spacing) {
+            lines.push(sketchLine(0, y, width, y, lineColor, 1, ++lineSeed));
+        }
+        const marginX = spacing * 2.5;
+        lines.push(sketchLine(marginX, 0, marginX, height, MARGIN_LINE_COLOR, 1, ++lineSeed));
+    }
+    else if (type === 'graph') {
+        for (let i = 1; i * spacing < width; i++) {
+            lines.push(sketchLine(i * spacing, 0, i * spacing, height, lineColor,
+                i % GRAPH_MAJOR_EVERY ? 0.5 : 1, ++lineSeed));
+        }
+        for (let i = 1; i * spacing < height; i++) {
+            lines.push(sketchLine(0, i * spacing, width, i * spacing, lineColor,
+                i % GRAPH_MAJOR_EVERY ? 0.5 : 1, ++lineSeed));
+        }
+    }
+    return {
+        color: option.color || DEFAULT_PAPER_COLOR,
+        card: type === 'torn' ? layoutTornCard(width, height, new Random(seed)) : null,
+        lines,
+        grain: option.grain != null ? option.grain : DEFAULT_GRAIN[type] || 0,
+        seed
+    };
+}
+
+// Last few layouts and canvases, by option and size. Options are compared by
+// value: an ECharts option set again with the same paper reuses them.
+const MAX_CACHED_PAPERS = 4;
+const layoutCache = new Map<string, PaperLayout>();
+const canvasCache = new Map<string, HTMLCanvasElement>();
+
+function getCached<T>(cache: Map<string, T>, key: string, compute: () => T): T {
+    let value = cache.get(key);
+    if (!value) {
+        cache.size >= MAX_CACHED_PAPERS && cache.delete(cache.keys().next().value);
+        cache.set(key, value = compute());
+    }
+    return value;
+}
+
+function getPaperKey(option: RoughPaperOption, width: number, height: number) {
+    return JSON.stringify(option) + ':' + width + 'x' + height;
+}
+
+function getPaperLayout(option: RoughPaperOption, width: number, height: number) {
+    return getCached(layoutCache, getPaperKey(option, width, height), () => layoutPaper(option, width, height));
+}
+
+function createGrainTile(grain: number, seed: number): HTMLCanvasElement {
+    const tile = platformApi.createCanvas() as HTMLCanvasElement;
+    tile.width = tile.height = GRAIN_TILE_SIZE;
+    const ctx = tile.getContext('2d');
+    const data = ctx.createImageData(GRAIN_TILE_SIZE, GRAIN_TILE_SIZE);
+    const pixels = data.data;
+    const random = new Random(seed);
+    for (let i = 0; i < pixels.length; i += 4) {
+        // Dark specks of varying strength
+        pixels[i + 3] = Math.round(random.next() * grain * 255);
+    }
+    ctx.putImageData(data, 0, 0);
+    return tile;
+}
+
+function tracePolygon(ctx: CanvasRenderingContext2D, points: number[][]) {
+    ctx.beginPath();
+    for (let i = 0; i < points.length; i++) {
+        i ? ctx.lineTo(points[i][0], points[i][1]) : ctx.moveTo(points[i][0], points[i][1]);
+    }
+    ctx.closePath();
+}
+
+function drawPaper(option: RoughPaperOption, width: number, height: number, dpr: number): HTMLCanvasElement {
+    const layout = getPaperLayout(option, width, height);
+    const canvas = platformApi.createCanvas() as HTMLCanvasElement;
+    canvas.width = Math.ceil(width * dpr);
+    canvas.height = Math.ceil(height * dpr);
+    const ctx = canvas.getContext('2d');
+    ctx.scale(dpr, dpr);
+
+    ctx.fillStyle = layout.color;
+    if (layout.card) {
+        ctx.save();
+        ctx.shadowColor = TORN_SHADOW;
+        ctx.shadowBlur = TORN_SHADOW_BLUR * dpr;
+        ctx.shadowOffsetY = dpr;
+        tracePolygon(ctx, layout.card);
+        ctx.fill();
+        ctx.restore();
+        tracePolygon(ctx, layout.card);
+        ctx.clip();
+    }
+    else {
+        ctx.fillRect(0, 0, width, height);
+    }
+
+    const rc = rough.canvas(canvas);
+    for (let i = 0; i < layout.lines.length; i++) {
+        rc.draw(layout.lines[i].drawable);
+    }
+
+    if (layout.grain > 0) {
+        ctx.save();
+        // The tile is in device pixels
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.fillStyle = ctx.createPattern(createGrainTile(layout.grain, layout.seed), 'repeat');
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.restore();
+    }
+    return canvas;
+}
+
+/**
+ * The paper at the given size (in px) and pixel ratio, drawn on first use.
+ */
+export function getPaperCanvas(option: RoughPaperOption, width: number, height: number, dpr: number) {
+    return getCached(canvasCache, getPaperKey(option, width, height) + '@' + dpr,
+        () => drawPaper(option, width, height, dpr));
+}
+
+/**
+ * The paper as SVG nodes, under everything else. `id` makes the ids of its
+ * filters unique in the document.
+ */
+export function createPaperVNode(option: RoughPaperOption, width: number, height: number, id: string): SVGVNode {
+    const layout = getPaperLayout(option, width, height);
+    const children: SVGVNode[] = [];
+    const card = layout.card && layout.card.map(p => p[0] + ' ' + p[1]).join(' ');
+
+    if (card) {
+        const shadowId = id + '-paper-shadow';
+        children.push(createVNode('filter', shadowId, {
+            id: shadowId, x: '-10%', y: '-10%', width: '120%', height: '120%'
+        }, [
+            createVNode('feDropShadow', '', {
+                dx: 0, dy: 1, stdDeviation: TORN_SHADOW_BLUR / 2, 'flood-color': '#000', 'flood-opacity': 0.25
+            })
+        ]));
+        children.push(createVNode('polygon', 'paper-card', {
+            points: card, fill: layout.color, filter: 'url(#' + shadowId + ')'
+        }));
+    }
+    else {
+        children.push(createVNode('rect', 'paper-sheet', { width, height, fill: layout.color }));
+    }
+
+    for (let i = 0; i < layout.lines.length; i++) {
+        const drawable = layout.lines[i].drawable;
+        const o = drawable.options;
+        for (let k = 0; k < drawable.sets.length; k++) {
+            children.push(createVNode('path', 'paper-line' + i + '-' + k, {
+                d: roughGenerator.opsToPath(drawable.sets[k], 2),
+                stroke: o.stroke,
+                'stroke-width': o.strokeWidth,
+                fill: 'none'
+            }));
+        }
+    }
+
+    if (layout.grain > 0) {
+        const grainId = id + '-paper-grain';
+        children.push(createVNode('filter', grainId, { id: grainId, x: 0, y: 0, width: '100%', height: '100%' }, [
+            createVNode('feTurbulence', '', {
+                type: 'fractalNoise', baseFrequency: 0.9, numOctaves: 2, seed: layout.seed, stitchTiles: 'stitch'
+            }),
+            // Noise only in the alpha channel, as dark specks
+            createVNode('feColorMatrix', '', {
+                type: 'matrix', values: '0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 ' + layout.grain * 2 + ' 0'
+            })
+        ]));
+        const grainAttrs: SVGVNodeAttrs = { width, height, filter: 'url(#' + grainId + ')' };
+        if (card) {
+            const clipId = id + '-paper-clip';
+            children.push(createVNode('clipPath', clipId, { id: clipId }, [
+                createVNode('polygon', '', { points: card })
+            ]));
+            grainAttrs['clip-path'] = 'url(#' + clipId + ')';
+        }
+        children.push(createVNode('rect', 'paper-grain', grainAttrs));
+    }
+    return createVNode('g', 'paper', {}, children);
+}
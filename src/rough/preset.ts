@@ -0,0 +1,200 @@
+import { extend, isString } from 'zrender/lib/core/util';
+import { modifyHSL, parse, stringify } from 'zrender/lib/tool/color';
+import { createRoughConfig, ResolvedRoughConfig, RoughConfig, RoughStyleOption } from './roughConfig';
+import type { RoughTextOption } from './text';
+import type { RoughFontOption } from './font';
+import type { RoughPaperOption } from './paper';
+
+// Named looks (`preset` painter option). A preset bundles painter-wide
+// Rough.js options with what they cannot express: a transform of every
+// colour the chart is drawn in, a font, a background and extra sketch passes.
+// Explicit painter options win over the preset's.
+
+/**
+ * Extra sketch of filled paths, drawn under the element itself.
+ */
+export interface RoughPresetPass {
+    // Offset of the pass in global coordinates, [x, y] in px
+    offset?: number[]
+    // Multiplies the element's opacity
+    opacity?: number
+    // Rough.js options over the element's
+    rough?: RoughStyleOption
+}
+
+export interface RoughPreset {
+    rough?: RoughConfig
+    // Maps every plain colour sketches and text are drawn in
+    color?: (color: string) => string
+    font?: string | RoughFontOption
+    // Chart background, unless the ECharts option sets one. A paper (see
+    // paper.ts) as well as a colour.
+    background?: string | RoughPaperOption
+    text?: boolean | RoughTextOption
+    passes?: RoughPresetPass[]
+}
+
+// Mixes a colour with another, keeping its alpha
+function mix(color: string, target: string, amount: number): string {
+    const rgba = parse(color);
+    const targetRgba = parse(target);
+    if (!rgba || !targetRgba) {
+        return color;
+    }
+    for (let i = 0; i < 3; i++) {
+        rgba[i] = Math.round(rgba[i] + (targetRgba[i] - rgba[i]) * amount);
+    }
+    return stringify(rgba, 'rgba');
+}
+
+function scaleAlpha(color: string, scale: number): string {
+    const rgba = parse(color);
+    if (!rgba) {
+        return color;
+    }
+    rgba[3] *= scale;
+    return stringify(rgba, 'rgba');
+}
+
+// Where the preset's font is not loaded by the page
+const HANDWRITING_FALLBACK = 'cursive';
+
+const presets: Record<string, RoughPreset> = {
+    // Graphite: muted colours, thin strokes, tight hachure
+    pencil: {
+        rough: {
+            fillStyle: 'hachure',
+            hachureGap: 3,
+            fillWeight: 0.5,
+            filled: { roughness: 1.2, bowing: 1.5 },
+            fallbackStroke: '#4a4a4a'
+        },
+        color: color => modifyHSL(color, null, s => s * 0.35, l => l * 0.9),
+        font: { family: 'Caveat', fallback: HANDWRITING_FALLBACK }
+    },
+    // Felt tip: saturated colours, broad zigzag strokes
+    marker: {
+        rough: {
+            fillStyle: 'zigzag',
+            hachureGap: 7,
+            fillWeight: 3,
+            filled: { roughness: 0.9, bowing: 0.5 },
+            fallbackStroke: '#222'
+        },
+        color: color => modifyHSL(color, null, s => Math.min(s * 1.3, 1), l => l * 0.9),
+        font: { family: 'Permanent Marker', fallback: HANDWRITING_FALLBACK }
+    },
+    // Wax crayon: rough, scribbly fills
+    crayon: {
+        rough: {
+            fillStyle: 'zigzag-line',
+            hachureGap: 3,
+            fillWeight: 2,
+            hachureAngle: -30,
+            filled: { roughness: 2.6, bowing: 2 },
+            stroked: { roughness: 1 }
+        },
+        color: color => modifyHSL(color, null, s => Math.min(s * 1.15, 1), l => Math.min(l * 1.05, 1)),
+        font: { family: 'Gochi Hand', fallback: HANDWRITING_FALLBACK },
+        text: true
+    },
+    // Light chalk on a dark board
+    chalkboard: {
+        rough: {
+            fillStyle: 'cross-hatch',
+            hachureGap: 6,
+            fillWeight: 1.5,
+            filled: { roughness: 1.8 },
+            stroked: { roughness: 0.8 },
+            fallbackStroke: '#f2f2ec'
+        },
+        color: color => mix(color, '#fff', 0.55),
+        font: { family: 'Cabin Sketch', fallback: HANDWRITING_FALLBACK },
+        background: '#2f4138',
+        text: true
+    },
+    // White technical lines on blue paper
+    blueprint: {
+        rough: {
+            fillStyle: 'cross-hatch',
+            hachureGap: 8,
+            fillWeight: 0.75,
+            filled: { roughness: 0.6, bowing: 0.3 },
+            stroked: { roughness: 0.3 },
+            fallbackStroke: '#e8f1fb'
+        },
+        color: color => mix(color, '#e8f1fb', 0.85),
+        font: { family: 'Architects Daughter', fallback: HANDWRITING_FALLBACK },
+        background: '#1d4e89'
+    },
+    // Solid washes, offset and bleeding out under the shape
+    watercolor: {
+        rough: {
+            fillStyle: 'solid',
+            filled: { roughness: 2.2, bowing: 2 },
+            fallbackStroke: 'none'
+        },
+        color: color => scaleAlpha(mix(color, '#fff', 0.15), 0.75),
+        font: { family: 'Caveat', fallback: HANDWRITING_FALLBACK },
+        passes: [
+            { offset: [2.5, -1.5], opacity: 0.35, rough: { roughness: 3 } },
+            { offset: [-2, 2], opacity: 0.3, rough: { roughness: 2.6 } }
+        ]
+    }
+};
+
+/**
+ * Adds a preset, or replaces one, usable as `preset: name` afterwards.
+ */
+export function registerPreset(name: string, preset: RoughPreset) {
+    presets[name] = preset;
+}
+
+export function resolvePreset(preset: string | RoughPreset): RoughPreset {
+    if (!isString(preset)) {
+        return preset || null;
+    }
+    if (!presets.hasOwnProperty(preset)) {
+        throw new Error('Unknown rough preset "' + preset + '", register it with registerPreset().');
+    }
+    return presets[preset];
+}
+
+/**
+ * Painter-wide Rough.js options: the painter's own over the preset's, with
+ * `filled` and `stroked` merged key by key.
+ */
+export function createPresetRoughConfig(preset: RoughPreset, rough: RoughConfig): ResolvedRoughConfig {
+    const base = preset && preset.rough;
+    if (!base || !rough) {
+        return createRoughConfig(base || rough);
+    }
+    const config: RoughConfig = extend(extend({}, base), rough);
+    config.filled = extend(extend({}, base.filled), rough.filled);
+    config.stroked = extend(extend({}, base.stroked), rough.stroked);
+    return createRoughConfig(config);
+}
+
+// Transformed colours per preset
+const colorCaches = new WeakMap<RoughPreset, Map<string, string>>();
+const MAX_CACHED_COLORS = 512;
+
+/**
+ * A plain colour as the preset draws it. Gradients and patterns are left as
+ * they are.
+ */
+export function getPresetColor<T>(preset: RoughPreset, color: T): T {
+    const transform = preset && preset.color;
+    if (!transform || !isString(color) || color === 'none' || color === 'transparent') {
+        return color;
+    }
+    let cache = colorCaches.get(preset);
+    if (!cache || cache.size >= MAX_CACHED_COLORS) {
+        colorCaches.set(preset, cache = new Map());
+    }
+    let transformed = cache.get(color);
+    if (transformed == null) {
+        cache.set(color, transformed = transform(color) || color);
+    }
+    return transformed as T;
+}
@@ -0,0 +1,138 @@
+import rough from 'roughjs';
+import type { Drawable } from 'roughjs/bin/core';
+import type { Point } from 'roughjs/bin/geometry';
+import type Displayable from 'zrender/lib/graphic/Displayable';
+import { isArray } from 'zrender/lib/core/util';
+import { RoughStyleOption } from './roughConfig';
+
+// Rough.js primitives for the zrender shapes it has one for. Parsing the
+// shape's SVG path sketches circles as four wobbly curves and arcs that do not
+// meet; the primitives draw ellipses as one overlapping pen stroke and pie
+// slices as a closed arc. Shapes are in element space like the parsed path,
+// so the element transform applies to both. Shapes a primitive cannot draw
+// exactly (rounded corners, donut sectors, smoothed lines) are left to the
+// path parser.
+
+const roughGenerator = rough.generator();
+
+const PI2 = Math.PI * 2;
+
+interface CircleShape { cx: number, cy: number, r: number }
+interface EllipseShape { cx: number, cy: number, rx: number, ry: number }
+interface RectShape { x: number, y: number, width: number, height: number, r?: number | number[] }
+interface ArcShape {
+    cx: number
+    cy: number
+    r: number
+    r0?: number
+    startAngle: number
+    endAngle: number
+    clockwise?: boolean
+    cornerRadius?: number | number[]
+}
+interface PolyShape { points: number[][], smooth?: number, percent?: number }
+// ECharts symbols (util/symbol.ts): a symbol type fitted in a box
+interface SymbolShape { symbolType: string, x: number, y: number, width: number, height: number }
+
+function hasRadius(r: number | number[]) {
+    if (isArray(r)) {
+        for (let i = 0; i < r.length; i++) {
+            if (r[i]) {
+                return true;
+            }
+        }
+        return false;
+    }
+    return !!r;
+}
+
+function circle(shape: CircleShape, options: RoughStyleOption) {
+    return shape.r > 0 ? roughGenerator.circle(shape.cx, shape.cy, shape.r * 2, options) : null;
+}
+
+function rectangle(shape: RectShape, options: RoughStyleOption) {
+    return hasRadius(shape.r) ? null : roughGenerator.rectangle(shape.x, shape.y, shape.width, shape.height, options);
+}
+
+// Canvas arc in center form (Sector, Arc) as a Rough.js arc, which always
+// runs clockwise from start to stop
+function arc(shape: ArcShape, closed: boolean, options: RoughStyleOption) {
+    const r = shape.r;
+    const clockwise = shape.clockwise !== false;
+    let sweep = clockwise ? shape.endAngle - shape.startAngle : shape.startAngle - shape.endAngle;
+    if (!(r > 0) || !sweep) {
+        return null;
+    }
+    if (Math.abs(sweep) >= PI2) {
+        return roughGenerator.circle(shape.cx, shape.cy, r * 2, options);
+    }
+    sweep = (sweep % PI2 + PI2) % PI2;
+    let start = clockwise ? shape.startAngle : shape.endAngle;
+    start = (start % PI2 + PI2) % PI2;
+    return roughGenerator.arc(shape.cx, shape.cy, r * 2, r * 2, start, start + sweep, closed, options);
+}
+
+function poly(shape: PolyShape, closed: boolean, options: RoughStyleOption) {
+    const points = shape.points;
+    if (!points || points.length < 2 || shape.smooth || shape.percent < 1) {
+        return null;
+    }
+    return closed
+        ? roughGenerator.polygon(points as Point[], options)
+        : roughGenerator.linearPath(points as Point[], options);
+}
+
+function symbol(shape: SymbolShape, options: RoughStyleOption) {
+    const { x, y, width: w, height: h } = shape;
+    const cx = x + w / 2;
+    const cy = y + h / 2;
+    switch (shape.symbolType) {
+        case 'circle':
+            return circle({ cx, cy, r: Math.min(w, h) / 2 }, options);
+        case 'rect':
+            return rectangle({ x, y, width: w, height: h }, options);
+        case 'square':
+            return rectangle({ x, y, width: Math.min(w, h), height: Math.min(w, h) }, options);
+        case 'line':
+            return roughGenerator.line(x, cy, x + w, cy, options);
+        case 'triangle':
+            return roughGenerator.polygon([[cx, y], [x + w, y + h], [x, y + h]], options);
+        case 'diamond':
+            return roughGenerator.polygon([[cx, y], [x + w, cy], [cx, y + h], [x, cy]], options);
+    }
+    return null;
+}
+
+/**
+ * The sketch of the element drawn with the Rough.js primitive for its shape,
+ * or null if it has none.
+ */
+export function getPrimitiveSketch(el: Displayable, options: RoughStyleOption): Drawable {
+    const shape = (el as Displayable & { shape?: unknown }).shape;
+    if (!shape) {
+        return null;
+    }
+    switch (el.type) {
+        case 'circle':
+            return circle(shape as CircleShape, options);
+        case 'ellipse': {
+            const { cx, cy, rx, ry } = shape as EllipseShape;
+            return rx > 0 && ry > 0 ? roughGenerator.ellipse(cx, cy, rx * 2, ry * 2, options) : null;
+        }
+        case 'rect':
+            return rectangle(shape as RectShape, options);
+        case 'sector': {
+            const sector = shape as ArcShape;
+            return sector.r0 || hasRadius(sector.cornerRadius) ? null : arc(sector, true, options);
+        }
+        case 'arc':
+            return arc(shape as ArcShape, false, options);
+        case 'polyline':
+            return poly(shape as PolyShape, false, options);
+        case 'polygon':
+            return poly(shape as PolyShape, true, options);
+        case 'symbol':
+            return symbol(shape as SymbolShape, options);
+    }
+    return null;
+}
@@ -0,0 +1,211 @@
+import type { Drawable, Op, OpSet } from 'roughjs/bin/core';
+
+// Partial drawing of Rough.js drawables. The full sketch is always generated
+// (with the element's stable seed) and only a part of its ops is replayed, so
+// a partially drawn element is an exact prefix of its final sketch — like a
+// pen that is still moving — rather than a different sketch of a shorter path.
+
+type Point = [number, number];
+
+export type RevealTest = (x: number, y: number) => boolean;
+
+// Iterations when searching where an op leaves the revealed area
+const REVEAL_SEARCH_STEPS = 10;
+
+function lastPoint(op: Op): Point {
+    const data = op.data;
+    return [data[data.length - 2], data[data.length - 1]];
+}
+
+function lerp(a: number, b: number, t: number) {
+    return a + (b - a) * t;
+}
+
+// Point of a drawing op at parameter t, starting from `from`
+function pointAt(from: Point, op: Op, t: number): Point {
+    const d = op.data;
+    if (op.op === 'bcurveTo') {
+        const mt = 1 - t;
+        const a = mt * mt * mt;
+        const b = 3 * mt * mt * t;
+        const c = 3 * mt * t * t;
+        const e = t * t * t;
+        return [
+            a * from[0] + b * d[0] + c * d[2] + e * d[4],
+            a * from[1] + b * d[1] + c * d[3] + e * d[5]
+        ];
+    }
+    return [lerp(from[0], d[0], t), lerp(from[1], d[1], t)];
+}
+
+// First part of a drawing op, split at t (de Casteljau for curves)
+function splitOp(from: Point, op: Op, t: number): Op {
+    const d = op.data;
+    if (op.op === 'bcurveTo') {
+        const q0x = lerp(from[0], d[0], t);
+        const q0y = lerp(from[1], d[1], t);
+        const q1x = lerp(d[0], d[2], t);
+        const q1y = lerp(d[1], d[3], t);
+        const q2x = lerp(d[2], d[4], t);
+        const q2y = lerp(d[3], d[5], t);
+        const r0x = lerp(q0x, q1x, t);
+        const r0y = lerp(q0y, q1y, t);
+        const r1x = lerp(q1x, q2x, t);
+        const r1y = lerp(q1y, q2y, t);
+        return {
+            op: 'bcurveTo',
+            data: [q0x, q0y, r0x, r0y, lerp(r0x, r1x, t), lerp(r0y, r1y, t)]
+        };
+    }
+    return { op: op.op, data: [lerp(from[0], d[0], t), lerp(from[1], d[1], t)] };
+}
+
+// Same op drawn the other way round
+function reverseOp(from: Point, op: Op): Op[] {
+    const d = op.data;
+    const end = lastPoint(op);
+    return [
+        { op: 'move', data: end },
+        op.op === 'bcurveTo'
+            ? { op: 'bcurveTo', data: [d[2], d[3], d[0], d[1], from[0], from[1]] }
+            : { op: op.op, data: [from[0], from[1]] }
+    ];
+}
+
+// Splits ops into pen strokes, each starting with a move
+function splitStrokes(ops: Op[]): Op[][] {
+    const strokes: Op[][] = [];
+    let current: Op[] = null;
+    for (let i = 0; i < ops.length; i++) {
+        const op = ops[i];
+        if (op.op === 'move' || !current) {
+            current = [];
+            strokes.push(current);
+        }
+        current.push(op);
+    }
+    return strokes;
+}
+
+function countDrawingOps(ops: Op[]) {
+    let count = 0;
+    for (let i = 0; i < ops.length; i++) {
+        ops[i].op !== 'move' && count++;
+    }
+    return count;
+}
+
+function withSets(drawable: Drawable, sets: OpSet[]): Drawable {
+    return {
+        shape: drawable.shape,
+        options: drawable.options,
+        sets
+    };
+}
+
+/**
+ * The first `percent` of every op set, as drawn by `strokePercent`. Solid fills
+ * cannot be cut along the pen path and only appear once complete.
+ */
+export function truncateDrawable(drawable: Drawable, percent: number): Drawable {
+    const sets: OpSet[] = [];
+    for (let i = 0; i < drawable.sets.length; i++) {
+        const set = drawable.sets[i];
+        if (set.type === 'fillPath') {
+            percent >= 1 && sets.push(set);
+            continue;
+        }
+        const target = countDrawingOps(set.ops) * Math.max(Math.min(percent, 1), 0);
+        const ops: Op[] = [];
+        let drawn = 0;
+        let pen: Point = [0, 0];
+        for (let k = 0; k < set.ops.length && drawn < target; k++) {
+            const op = set.ops[k];
+            if (op.op === 'move') {
+                ops.push(op);
+            }
+            else if (drawn + 1 <= target) {
+                ops.push(op);
+                drawn++;
+            }
+            else {
+                ops.push(splitOp(pen, op, target - drawn));
+                drawn = target;
+            }
+            pen = lastPoint(op);
+        }
+        ops.length && sets.push({ type: set.type, ops });
+    }
+    return withSets(drawable, sets);
+}
+
+/**
+ * The part of the sketch the pen has already drawn under a reveal clip: every
+ * pen stroke starting inside the revealed area, up to where it leaves it.
+ * Solid fill sets are left out; the caller clips them instead.
+ */
+export function revealDrawable(drawable: Drawable, isRevealed: RevealTest): Drawable {
+    const sets: OpSet[] = [];
+    for (let i = 0; i < drawable.sets.length; i++) {
+        const set = drawable.sets[i];
+        if (set.type === 'fillPath') {
+            continue;
+        }
+        const strokes = splitStrokes(set.ops);
+        const ops: Op[] = [];
+        for (let k = 0; k < strokes.length; k++) {
+            revealStroke(strokes[k], isRevealed, ops);
+        }
+        ops.length && sets.push({ type: set.type, ops });
+    }
+    return withSets(drawable, sets);
+}
+
+export function getSolidFillSets(drawable: Drawable): Drawable {
+    const sets: OpSet[] = [];
+    for (let i = 0; i < drawable.sets.length; i++) {
+        drawable.sets[i].type === 'fillPath' && sets.push(drawable.sets[i]);
+    }
+    return withSets(drawable, sets);
+}
+
+function revealStroke(stroke: Op[], isRevealed: RevealTest, out: Op[]) {
+    if (stroke[0].op !== 'move') {
+        return;
+    }
+    let pen = lastPoint(stroke[0]);
+    if (!isRevealed(pen[0], pen[1])) {
+        // Single-op strokes (hachure lines) may be drawn from the other end
+        const end = stroke.length === 2 && lastPoint(stroke[1]);
+        if (!end || !isRevealed(end[0], end[1])) {
+            return;
+        }
+        stroke = reverseOp(pen, stroke[1]);
+        pen = end;
+    }
+    out.push(stroke[0]);
+    for (let i = 1; i < stroke.length; i++) {
+        const op = stroke[i];
+        const end = lastPoint(op);
+        if (isRevealed(end[0], end[1])) {
+            out.push(op);
+            pen = end;
+            continue;
+        }
+        // Bisect for the point where the op leaves the revealed area
+        let lo = 0;
+        let hi = 1;
+        for (let step = 0; step < REVEAL_SEARCH_STEPS; step++) {
+            const mid = (lo + hi) / 2;
+            const p = pointAt(pen, op, mid);
+            if (isRevealed(p[0], p[1])) {
+                lo = mid;
+            }
+            else {
+                hi = mid;
+            }
+        }
+        lo > 0 && out.push(splitOp(pen, op, lo));
+        return;
+    }
+}
@@ -0,0 +1,158 @@
+import type { Options } from 'roughjs/bin/core';
+import { extend } from 'zrender/lib/core/util';
+import type { RoughImageOption } from './image';
+
+/**
+ * How an element is drawn: fully sketched, sketched with cheaper settings
+ * (single strokes, sparser hachure, coarser curves), or with plain canvas
+ * fills and strokes.
+ */
+export type RoughLodMode = 'rough' | 'cheap' | 'canvas';
+
+/**
+ * Level-of-detail budget. Once more shapes than `threshold` are to be
+ * sketched, `mode` is used instead of the full sketch. Without a budget
+ * everything is fully sketched.
+ */
+export interface RoughLodOption {
+    threshold?: number
+    mode?: 'cheap' | 'canvas'
+}
+
+/**
+ * Settings the painter understands on top of the Rough.js options. They can
+ * be given wherever Rough.js options can.
+ */
+export interface RoughExtraOption {
+    // How gradient fills and strokes are approximated: hachured bands along
+    // the gradient axis, each in its interpolated colour, or a single solid
+    // colour averaged over the gradient.
+    gradient?: 'bands' | 'solid'
+    // Number of bands in 'bands' mode
+    gradientBands?: number
+    // How pattern fills are drawn: ECharts decals as the closest Rough.js
+    // fill style ('rough'), or every pattern tiled on the canvas inside the
+    // path ('canvas'). Image patterns that are not decals always use 'canvas'.
+    pattern?: 'rough' | 'canvas'
+    // Level of detail of the element, overriding the layer budget. In the
+    // ECharts option tree a budget can be given instead; it is compared with
+    // the series' data count (see modelStyle.ts).
+    lod?: RoughLodMode | RoughLodOption
+    // Sketch treatment of image elements, see image.ts
+    image?: RoughImageOption
+    // How shadows of paths are drawn: the ECharts shadow applied once to the
+    // whole sketch ('soft'), or a solid sketched silhouette offset under
+    // filled paths, like paper cut-outs ('cutout').
+    shadow?: 'soft' | 'cutout'
+    // Sketch translucent paths (opacity, blend mode) at full opacity and
+    // composite them once, so overlapping pen strokes are not darker
+    isolate?: boolean
+    // Sketch treatments of the ECharts states (see states.ts), 'none' to
+    // leave the state to the state style alone: a heavier second stroke or
+    // a highlighter band on hover, light pencil when blurred, a hand-drawn
+    // circle or underline when selected.
+    emphasis?: 'double' | 'highlighter' | 'none'
+    blur?: 'pencil' | 'none'
+    select?: 'circle' | 'underline' | 'none'
+    // Colour of the highlighter and of the selection marks
+    markColor?: string
+}
+
+/**
+ * Per-element Rough.js options, set from the ECharts option tree as
+ * `itemStyle.rough`, `lineStyle.rough` or `areaStyle.rough` (see modelStyle.ts).
+ * They are applied on top of the painter defaults.
+ */
+export interface RoughStyleOption extends Options, RoughExtraOption {}
+
+export interface RoughStyleProps {
+    rough?: RoughStyleOption
+}
+
+/**
+ * Painter-level Rough.js defaults. Top-level keys apply to every path,
+ * `filled` and `stroked` are applied on top for shapes with a fill and for
+ * stroke-only paths respectively.
+ */
+export interface RoughConfig extends RoughStyleOption {
+    filled?: RoughStyleOption
+    stroked?: RoughStyleOption
+    // Outline for filled shapes that carry no stroke of their own.
+    // 'none' leaves them unoutlined.
+    fallbackStroke?: string
+}
+
+export interface ResolvedRoughConfig {
+    filled: RoughStyleOption
+    stroked: RoughStyleOption
+    fallbackStroke: string
+}
+
+const DEFAULT_BASE_OPTIONS: RoughStyleOption = {
+    fillStyle: 'hachure',
+    hachureGap: 5,
+    gradient: 'bands',
+    gradientBands: 6,
+    pattern: 'rough',
+    isolate: true
+};
+
+// Filled shapes (bars, areas) get the full sketchy treatment.
+// Stroke-only paths (axes, grid lines, ticks) use minimal roughness
+// so they stay legible at lineWidth 1.
+const DEFAULT_FILLED_OPTIONS: Options = {
+    roughness: 1.5,
+    bowing: 1
+};
+const DEFAULT_STROKED_OPTIONS: Options = {
+    roughness: 0.4,
+    bowing: 0.3
+};
+
+// Filled shapes without an explicit stroke get a dark outline — correct for
+// the hand-drawn aesthetic and required for elements like gauge arc zones
+// that carry no borderColor in their ECharts style.
+const DEFAULT_FALLBACK_STROKE = '#333';
+
+export function createRoughConfig(config?: RoughConfig): ResolvedRoughConfig {
+    config = config || {};
+    const base: RoughStyleOption = extend({}, config);
+    delete (base as RoughConfig).filled;
+    delete (base as RoughConfig).stroked;
+    delete (base as RoughConfig).fallbackStroke;
+
+    return {
+        filled: extend(extend(extend(extend({}, DEFAULT_BASE_OPTIONS), DEFAULT_FILLED_OPTIONS), base), config.filled),
+        stroked: extend(extend(extend(extend({}, DEFAULT_BASE_OPTIONS), DEFAULT_STROKED_OPTIONS), base), config.stroked),
+        fallbackStroke: config.fallbackStroke || DEFAULT_FALLBACK_STROKE
+    };
+}
+
+export const DEFAULT_ROUGH_CONFIG = createRoughConfig();
+
+export const DEFAULT_LOD_THRESHOLD = 3000;
+
+/**
+ * Resolves a budget against the number of shapes to sketch. Budgets are
+ * opt-in: without one the full sketch is kept however many shapes there are.
+ */
+export function getLodMode(lod: RoughLodOption, shapeCount: number): RoughLodMode {
+    if (!lod) {
+        return 'rough';
+    }
+    const threshold = lod.threshold != null ? lod.threshold : DEFAULT_LOD_THRESHOLD;
+    return shapeCount > threshold ? (lod.mode || 'cheap') : 'rough';
+}
+
+/**
+ * Overrides turning a sketch into the cheap level of detail: one stroke per
+ * line instead of two, half the hachure lines and coarser curves.
+ */
+export function getCheapRoughOptions(options: RoughStyleOption): RoughStyleOption {
+    return {
+        disableMultiStroke: true,
+        disableMultiStrokeFill: true,
+        hachureGap: (options.hachureGap > 0 ? options.hachureGap : 4) * 2,
+        curveStepCount: Math.min(options.curveStepCount || 9, 4)
+    };
+}
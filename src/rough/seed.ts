@@ -0,0 +1,77 @@
+import Displayable from 'zrender/lib/graphic/Displayable';
+import Element from 'zrender/lib/Element';
+import { indexOf } from 'zrender/lib/core/util';
+import { getECData } from 'echarts/lib/util/innerStore';
+
+export const DEFAULT_SEED = 1;
+
+// Rough.js treats a seed of 0 as "use Math.random", so derived seeds are
+// always kept in [1, 2^31 - 1].
+const MAX_SEED = 0x7fffffff;
+
+// FNV-1a over the UTF-16 code units of the key.
+function hashString(str: string, hash: number) {
+    for (let i = 0; i < str.length; i++) {
+        hash ^= str.charCodeAt(i);
+        hash = Math.imul(hash, 16777619);
+    }
+    return hash >>> 0;
+}
+
+// Set by ECharts on the group of every component and chart view
+interface ComponentInfo {
+    mainType: string
+    index: number
+}
+
+type ViewElement = Element & { __ecComponentInfo?: ComponentInfo };
+
+// The component view group the element is drawn in, and the element's path
+// down from it: child indices, and labels and guide lines of their host.
+function getComponentKey(el: Element): string {
+    let path = '';
+    while (el) {
+        const info = (el as ViewElement).__ecComponentInfo;
+        if (info) {
+            return 'c' + info.mainType + ':' + info.index + path;
+        }
+        const parent = el.parent;
+        const host = el.__hostTarget;
+        path = (parent ? '/' + indexOf(parent.childrenRef(), el)
+            : host ? (host.getTextContent() === el ? '/t' : '/g')
+            : '') + path;
+        el = parent || host;
+    }
+    return null;
+}
+
+// Series elements are identified by their series/data index so that an element
+// ECharts recreates for the same data item keeps its sketch. Axes, split lines,
+// titles and the other component elements are rebuilt on every update, so
+// they go by their component and their place in its view: an axis redrawn
+// after a resize or setOption keeps its strokes. Elements outside any view
+// fall back to the zrender element id, which is stable for the lifetime of the
+// element. Ids are handed out by a counter shared by all instances, so they are
+// taken relative to an id of the painter: the same option then sketches the
+// same in every instance and every process.
+function getElementKey(el: Displayable, idBase: number) {
+    const ecData = getECData(el);
+    if (ecData.seriesIndex != null) {
+        return 's' + ecData.seriesIndex
+            + ':' + (ecData.dataType || '')
+            + ':' + (ecData.dataIndex == null ? '' : ecData.dataIndex)
+            + ':' + el.type
+            + ':' + (el.name || '');
+    }
+    const componentKey = getComponentKey(el);
+    return componentKey ? componentKey + ':' + el.type : 'e' + (el.id - (idBase || 0));
+}
+
+export function mixSeed(baseSeed: number, key: string) {
+    const hash = hashString(key, (2166136261 ^ (baseSeed | 0)) >>> 0);
+    return hash % MAX_SEED + 1;
+}
+
+export function getElementSeed(el: Displayable, baseSeed: number, idBase?: number) {
+    return mixSeed(baseSeed == null ? DEFAULT_SEED : baseSeed, getElementKey(el, idBase));
+}
@@ -0,0 +1,84 @@
+import type { Drawable } from 'roughjs/bin/core';
+import type Displayable from 'zrender/lib/graphic/Displayable';
+import { isArray } from 'zrender/lib/core/util';
+import { RoughStyleOption } from './roughConfig';
+
+// Generated Rough.js drawables per element. Generation is by far the most
+// expensive part of painting, while most elements look the same from one
+// frame to the next: the sketch only depends on the path (element space, so
+// moving an element keeps its sketch), the resolved options and the seed.
+
+// Passes per element before its cache is started over. Gradient bands draw a
+// handful of passes per frame; style animations produce a new one each frame.
+const MAX_SKETCHES_PER_ELEMENT = 32;
+
+interface SketchCache {
+    svgPath: string
+    sketches: Record<string, Drawable>
+    count: number
+}
+
+const sketchCaches = new WeakMap<Displayable, SketchCache>();
+
+/**
+ * Forgets the sketches of an element, called when its geometry is rebuilt.
+ */
+export function clearSketchCache(el: Displayable) {
+    sketchCaches.delete(el);
+}
+
+/**
+ * The SVG path the cached sketches of the element were made from.
+ */
+export function getCachedSvgPath(el: Displayable) {
+    const cache = sketchCaches.get(el);
+    return cache && cache.svgPath;
+}
+
+/**
+ * Records the SVG path of the element, dropping its sketches if it changed.
+ */
+export function setCachedSvgPath(el: Displayable, svgPath: string) {
+    const cache = sketchCaches.get(el);
+    if (!cache || cache.svgPath !== svgPath) {
+        sketchCaches.set(el, { svgPath, sketches: {}, count: 0 });
+    }
+}
+
+// Options are flat: Rough.js options, colours and a few arrays
+function getOptionsKey(options: RoughStyleOption) {
+    let key = '';
+    for (const name in options) {
+        const value = options[name as keyof RoughStyleOption];
+        if (value != null) {
+            key += name + '=' + (isArray(value) ? value.join(',') : value) + ';';
+        }
+    }
+    return key;
+}
+
+/**
+ * The drawable of one sketch pass, generated on first use.
+ */
+export function getCachedSketch(
+    el: Displayable,
+    svgPath: string,
+    options: RoughStyleOption,
+    generate: () => Drawable
+): Drawable {
+    const cache = sketchCaches.get(el);
+    if (!cache || cache.svgPath !== svgPath) {
+        return generate();
+    }
+    const key = getOptionsKey(options);
+    let sketch = cache.sketches[key];
+    if (!sketch) {
+        if (cache.count >= MAX_SKETCHES_PER_ELEMENT) {
+            cache.sketches = {};
+            cache.count = 0;
+        }
+        sketch = cache.sketches[key] = generate();
+        cache.count++;
+    }
+    return sketch;
+}
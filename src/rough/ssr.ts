@@ -0,0 +1,73 @@
+import type { EChartsCoreOption, EChartsInitOpts } from 'echarts/core';
+// Options come from arbitrary sources (reporting jobs, files), so every chart
+// type and component is registered
+import 'echarts';
+import { extend } from 'zrender/lib/core/util';
+import { init } from './index';
+import type { RoughPainterOption } from './painterOptions';
+import { getFontStack, normalizeFontOption } from './font';
+import { resolvePreset } from './preset';
+
+// Server side rendering: the chart is laid out and sketched without a DOM,
+// through the 'rough-svg' painter in zrender's ssr mode. Nothing here (nor in
+// the modules it imports) touches `document`, so it runs under plain Node.
+
+export interface RoughSSROption extends RoughPainterOption {
+    width?: number
+    height?: number
+    theme?: string | object
+    locale?: string
+    // Scale with the container through a `viewBox` instead of a fixed size
+    useViewBox?: boolean
+}
+
+const DEFAULT_WIDTH = 800;
+const DEFAULT_HEIGHT = 600;
+
+/**
+ * Renders an ECharts option to a hand-drawn SVG string. Animations are off
+ * unless the option asks for them: the output is a still image, meant to be
+ * embedded in emails, PDFs or static pages.
+ */
+export function renderToSVGString(option: EChartsCoreOption, opts?: RoughSSROption): string {
+    opts = opts || {};
+    // Without a DOM the size cannot be measured, it has to be given
+    const chart = init(null, opts.theme, extend({
+        // Not one of the renderer names ECharts' types know about
+        renderer: 'rough-svg' as EChartsInitOpts['renderer'],
+        ssr: true,
+        width: opts.width || DEFAULT_WIDTH,
+        height: opts.height || DEFAULT_HEIGHT,
+        locale: opts.locale
+    }, pickPainterOption(opts)));
+    try {
+        option = extend({}, option);
+        option.animation == null && (option.animation = false);
+        // Nothing to wait for on the server, the family is the default right away
+        const preset = resolvePreset(opts.preset);
+        const font = normalizeFontOption(opts.font || preset && preset.font);
+        const textStyle = option.textStyle as { fontFamily?: string };
+        if (font && !(textStyle && textStyle.fontFamily)) {
+            option.textStyle = extend({ fontFamily: getFontStack(font) }, textStyle);
+        }
+        chart.setOption(option);
+        return chart.renderToSVGString({ useViewBox: opts.useViewBox });
+    }
+    finally {
+        chart.dispose();
+    }
+}
+
+// Only the painter keys are passed on, `configure()` treats the presence of a
+// key (even undefined) as a change
+function pickPainterOption(opts: RoughSSROption): RoughPainterOption {
+    const painterOpts: RoughPainterOption = {};
+    opts.seed != null && (painterOpts.seed = opts.seed);
+    opts.rough && (painterOpts.rough = opts.rough);
+    opts.revealClip != null && (painterOpts.revealClip = opts.revealClip);
+    opts.lod && (painterOpts.lod = opts.lod);
+    opts.text && (painterOpts.text = opts.text);
+    opts.preset && (painterOpts.preset = opts.preset);
+    opts.paper && (painterOpts.paper = opts.paper);
+    return painterOpts;
+}
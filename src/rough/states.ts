@@ -0,0 +1,262 @@
+import rough from 'roughjs';
+import type { Drawable } from 'roughjs/bin/core';
+import Animator from 'zrender/lib/animation/Animator';
+import type Displayable from 'zrender/lib/graphic/Displayable';
+import type Path from 'zrender/lib/graphic/Path';
+import { extend } from 'zrender/lib/core/util';
+import { RoughStyleOption } from './roughConfig';
+import { getPresetColor, RoughPreset } from './preset';
+
+// Sketch treatments of the ECharts states. zrender only swaps the element's
+// style for its state style, which re-sketches it with new colours at best.
+// On top of that, hovered paths get a heavier second stroke or a highlighter
+// band ('emphasis'), blurred ones fade into light pencil ('blur') and selected
+// ones are circled or underlined by hand ('select'). Each state has a level
+// eased from 0 to 1 and back with the element's state transition, which
+// fades the treatment in and out, or has the pen trace the selection marks.
+
+export type RoughStateName = 'emphasis' | 'blur' | 'select';
+
+const STATE_NAMES: RoughStateName[] = ['emphasis', 'blur', 'select'];
+
+const DEFAULT_TREATMENTS = {
+    emphasis: 'double',
+    blur: 'pencil',
+    select: 'circle'
+} as const;
+
+const HIGHLIGHTER_COLOR = '#ffe14d';
+const HIGHLIGHTER_OPACITY = 0.6;
+const SELECT_COLOR = '#e03131';
+const PENCIL_STROKE = '#8c8c8c';
+const PENCIL_FILL = '#bdbdbd';
+// Gap between a selected element and the marks around it, in px
+const SELECT_PADDING = 6;
+// The selection ellipse is this much larger than the element's box
+const SELECT_ELLIPSE_SCALE = 1.2;
+// Seeds of the marks, apart from the element's own
+const MARK_SEED_OFFSET = 7919;
+
+const roughGenerator = rough.generator();
+
+type StateLevels = Record<RoughStateName, number>;
+
+interface StateTransition {
+    levels: StateLevels
+    // States the levels are heading to, as in currentStates
+    target: string
+    animator: Animator<StateLevels>
+}
+
+const transitions = new WeakMap<Displayable, StateTransition>();
+
+function getTargetLevels(states: string[]): StateLevels {
+    const levels = {} as StateLevels;
+    for (let i = 0; i < STATE_NAMES.length; i++) {
+        levels[STATE_NAMES[i]] = states.indexOf(STATE_NAMES[i]) >= 0 ? 1 : 0;
+    }
+    return levels;
+}
+
+/**
+ * How far the element is in each state. A change of its states starts a
+ * transition with the element's `stateTransition`; the first paint of an
+ * element, and elements without a transition or on the hover layer, jump to
+ * their states right away.
+ */
+export function getStateLevels(el: Displayable): StateLevels {
+    const states = el.currentStates || [];
+    const target = states.join(',');
+    let transition = transitions.get(el);
+    if (!transition) {
+        transitions.set(el, transition = { levels: getTargetLevels(states), target, animator: null });
+    }
+    else if (transition.target !== target) {
+        const targetLevels = getTargetLevels(states);
+        const levels = transition.levels;
+        const cfg = el.stateTransition;
+        transition.target = target;
+        transition.animator && transition.animator.stop();
+        transition.animator = null;
+        if (el.__zr && cfg && cfg.duration > 0 && !el.__inHover) {
+            const animator = transition.animator = new Animator(levels, false);
+            animator.when(cfg.duration, targetLevels)
+                .delay(cfg.delay || 0)
+                // Stopped along with the element's other animations
+                .aborted(function () {
+                    extend(levels, targetLevels);
+                })
+                .start(cfg.easing);
+            el.addAnimator(animator, '');
+        }
+        else {
+            extend(levels, targetLevels);
+        }
+    }
+    return transition.levels;
+}
+
+/**
+ * Extra sketch drawn with a path in one of its states.
+ */
+export interface StateMark {
+    options: RoughStyleOption
+    // Sketch of the mark when it is not the element's path, see getStateMarkSketch
+    generate?: () => Drawable
+    opacity: number
+    // Part of the mark drawn so far, for marks the pen traces
+    percent: number
+    // Drawn under the element
+    under?: boolean
+}
+
+export interface StateTreatment {
+    // Opacity of the element's own sketch
+    opacity: number
+    marks: StateMark[]
+}
+
+function getTreatment<T extends RoughStateName>(options: RoughStyleOption, state: T) {
+    const treatment = options[state];
+    return treatment == null ? DEFAULT_TREATMENTS[state] : treatment;
+}
+
+// Heavier second pass over the outline
+function getDoubleStrokeOptions(options: RoughStyleOption): RoughStyleOption {
+    return extend(extend({}, options), {
+        stroke: options.stroke !== 'none' ? options.stroke : options.fill || 'none',
+        strokeWidth: (options.strokeWidth || 1) + 1,
+        fill: undefined,
+        seed: options.seed + MARK_SEED_OFFSET
+    });
+}
+
+// Broad marker strokes across filled shapes, a wide band under lines
+function getHighlighterOptions(options: RoughStyleOption, color: string): RoughStyleOption {
+    const highlighter: RoughStyleOption = extend({}, options);
+    if (options.fill) {
+        extend(highlighter, {
+            stroke: 'none',
+            fill: color,
+            fillStyle: 'zigzag-line',
+            hachureGap: 8,
+            hachureAngle: -30,
+            fillWeight: 6
+        });
+    }
+    else {
+        extend(highlighter, {
+            stroke: color,
+            strokeWidth: Math.max((options.strokeWidth || 1) * 4, 8),
+            disableMultiStroke: true
+        });
+    }
+    highlighter.strokeLineDash = null;
+    highlighter.seed = options.seed + MARK_SEED_OFFSET;
+    return highlighter;
+}
+
+// The same sketch in thin light pencil, the element crossfades into it
+function getPencilOptions(options: RoughStyleOption): RoughStyleOption {
+    return extend(extend({}, options), {
+        stroke: options.stroke !== 'none' ? PENCIL_STROKE : 'none',
+        strokeWidth: Math.max((options.strokeWidth || 1) * 0.6, 0.5),
+        fill: options.fill ? PENCIL_FILL : undefined,
+        fillStyle: 'hachure',
+        fillWeight: 0.5,
+        hachureGap: (options.hachureGap > 0 ? options.hachureGap : 5) * 1.5
+    });
+}
+
+function getSelectMarkOptions(
+    options: RoughStyleOption, color: string, mark: RoughStyleOption['select']
+): RoughStyleOption {
+    return {
+        stroke: color,
+        strokeWidth: 2,
+        roughness: 1.5,
+        bowing: 1,
+        seed: options.seed + MARK_SEED_OFFSET * 2,
+        // Tells the mark's cached sketch from the element's
+        select: mark
+    };
+}
+
+function generateSelectMark(el: Path, mark: RoughStyleOption['select'], options: RoughStyleOption) {
+    const rect = el.getBoundingRect();
+    if (mark === 'underline') {
+        const y = rect.y + rect.height + SELECT_PADDING;
+        return roughGenerator.line(rect.x, y, rect.x + rect.width, y, options);
+    }
+    return roughGenerator.ellipse(
+        rect.x + rect.width / 2,
+        rect.y + rect.height / 2,
+        rect.width * SELECT_ELLIPSE_SCALE + SELECT_PADDING * 2,
+        rect.height * SELECT_ELLIPSE_SCALE + SELECT_PADDING * 2,
+        options
+    );
+}
+
+/**
+ * The treatments of the path's current states, null in the normal state.
+ * `options` are the sketch options of the element.
+ */
+export function getStateTreatment(el: Path, options: RoughStyleOption, preset: RoughPreset): StateTreatment {
+    const levels = getStateLevels(el);
+    if (!levels.emphasis && !levels.blur && !levels.select) {
+        return null;
+    }
+    const treatment: StateTreatment = { opacity: 1, marks: [] };
+    const marks = treatment.marks;
+    const markColor = options.markColor;
+
+    const blur = levels.blur && getTreatment(options, 'blur');
+    if (blur === 'pencil') {
+        treatment.opacity = 1 - levels.blur;
+        marks.push({ options: getPencilOptions(options), opacity: levels.blur, percent: 1 });
+    }
+
+    const emphasis = levels.emphasis && getTreatment(options, 'emphasis');
+    if (emphasis === 'double') {
+        marks.push({ options: getDoubleStrokeOptions(options), opacity: levels.emphasis, percent: 1 });
+    }
+    else if (emphasis === 'highlighter') {
+        marks.push({
+            options: getHighlighterOptions(options, getPresetColor(preset, markColor || HIGHLIGHTER_COLOR)),
+            opacity: levels.emphasis * HIGHLIGHTER_OPACITY,
+            percent: 1,
+            under: true
+        });
+    }
+
+    const select = levels.select && getTreatment(options, 'select');
+    if (select === 'circle' || select === 'underline') {
+        const selectOptions = getSelectMarkOptions(options, getPresetColor(preset, markColor || SELECT_COLOR), select);
+        marks.push({
+            options: selectOptions,
+            generate: () => generateSelectMark(el, select, selectOptions),
+            opacity: 1,
+            percent: levels.select
+        });
+    }
+    return treatment;
+}
+
+/**
+ * How far the marks of the path's current states reach out of it, in
+ * element space. `options` are the element's Rough.js options.
+ */
+export function getStateMarkMargin(el: Path, options: RoughStyleOption, hasFill: boolean): number {
+    const levels = getStateLevels(el);
+    let margin = 0;
+    if (levels.select && getTreatment(options, 'select') !== 'none') {
+        const rect = el.getBoundingRect();
+        const scale = (SELECT_ELLIPSE_SCALE - 1) / 2;
+        // Pen width and wobble of the mark on top
+        margin = Math.max(rect.width, rect.height) * scale + SELECT_PADDING + 4;
+    }
+    if (levels.emphasis && getTreatment(options, 'emphasis') === 'highlighter' && !hasFill) {
+        margin = Math.max(margin, Math.max((options.strokeWidth || 1) * 2, 4) + 2);
+    }
+    return margin;
+}
@@ -0,0 +1,480 @@
+import rough from 'roughjs';
+import type { Drawable, OpSet } from 'roughjs/bin/core';
+import Displayable from 'zrender/lib/graphic/Displayable';
+import Path, { PathStyleProps } from 'zrender/lib/graphic/Path';
+import TSpan from 'zrender/lib/graphic/TSpan';
+import ZRImage from 'zrender/lib/graphic/Image';
+import { GradientObject } from 'zrender/lib/graphic/Gradient';
+import { LinearGradientObject } from 'zrender/lib/graphic/LinearGradient';
+import { RadialGradientObject } from 'zrender/lib/graphic/RadialGradient';
+import { createVNode, META_DATA_PREFIX, SVGVNode, SVGVNodeAttrs, BrushScope as ZRSVGBrushScope } from 'zrender/lib/svg/core';
+import { brush as brushZRSVG, brushSVGPath, setClipPath, setGradient, setPattern } from 'zrender/lib/svg/graphic';
+import { getIdURL, getMatrixStr, getShadowKey, normalizeColor } from 'zrender/lib/svg/helper';
+import { getElementSSRData } from 'zrender/lib/zrender';
+import { extend, isString } from 'zrender/lib/core/util';
+import {
+    createRevealTest, getCutoutShadow, getCutoutSketchOptions, getElementLod, getElementSketch, getImageOption,
+    getImageSketchOptions, getPassSketchOptions, getPatternOutline, getRectSvgPath, getShadowMode, getSketchAlphas, getSketchPart,
+    getSketchStyle, getSketchSvgPath, getStateMarkSketch, RoughScope, updatePathProxy
+} from './graphic';
+import { averageGradientColor, getLinearGradientCoords, getRadialGradientCoords } from './helper';
+import { getSolidFillSets, revealDrawable } from './reveal';
+import { RoughLodMode, RoughStyleOption } from './roughConfig';
+import { getElementSeed } from './seed';
+import { getPainterFont, getPainterFontFamily } from './font';
+import { getSVGGlyphAttrs } from './text';
+import { getPresetColor } from './preset';
+import { getStateTreatment, StateMark } from './states';
+
+// SVG counterpart of graphic.ts: elements are sketched with the same style
+// resolution and the same cached drawables, then turned into zrender SVG
+// vnodes instead of being replayed on a canvas. Text and images, and paths at
+// the 'canvas' level of detail, are left to zrender's own SVG brush. Images
+// only get their sketched frame: filters and hachure read the pixels back,
+// they are canvas only.
+
+export type SVGBrushScope = ZRSVGBrushScope & RoughScope & {
+    // Reveal clips of the current element, traced rather than clipped
+    revealClips?: Path[]
+}
+
+const roughGenerator = rough.generator();
+
+// Paint servers (gradient urls) replacing the sketch colours
+interface SketchPaint {
+    fill?: string
+    stroke?: string
+}
+
+function getDashArray(dash: number[]) {
+    return dash.join(' ').trim();
+}
+
+// Coordinate decimals in compressed output (renderToString)
+const COMPRESS_PRECISION = 2;
+
+// Same nodes as RoughSVG#draw, as vnodes
+function drawableToVNodes(
+    drawable: Drawable,
+    paint: SketchPaint,
+    keyPrefix: string,
+    scope: SVGBrushScope,
+    // Element style, for the caps and joins of the pen strokes
+    style?: PathStyleProps
+): SVGVNode[] {
+    const o = drawable.options;
+    const precision = scope.compress ? COMPRESS_PRECISION : o.fixedDecimalPlaceDigits;
+    const nodes: SVGVNode[] = [];
+    for (let i = 0; i < drawable.sets.length; i++) {
+        const set: OpSet = drawable.sets[i];
+        const attrs: SVGVNodeAttrs = {
+            d: roughGenerator.opsToPath(set, precision)
+        };
+        if (set.type === 'path') {
+            attrs.stroke = paint.stroke || o.stroke;
+            attrs['stroke-width'] = o.strokeWidth;
+            attrs.fill = 'none';
+            o.strokeLineDash && (attrs['stroke-dasharray'] = getDashArray(o.strokeLineDash));
+            o.strokeLineDashOffset && (attrs['stroke-dashoffset'] = o.strokeLineDashOffset);
+            style && style.lineCap && style.lineCap !== 'butt' && (attrs['stroke-linecap'] = style.lineCap);
+            style && style.lineJoin && style.lineJoin !== 'miter' && (attrs['stroke-linejoin'] = style.lineJoin);
+        }
+        else if (set.type === 'fillPath') {
+            attrs.stroke = 'none';
+            attrs['stroke-width'] = 0;
+            attrs.fill = paint.fill || o.fill || '';
+            (drawable.shape === 'curve' || drawable.shape === 'polygon') && (attrs['fill-rule'] = 'evenodd');
+        }
+        else {
+            attrs.stroke = paint.fill || o.fill || '';
+            attrs['stroke-width'] = o.fillWeight < 0 ? o.strokeWidth / 2 : o.fillWeight;
+            attrs.fill = 'none';
+            o.fillLineDash && (attrs['stroke-dasharray'] = getDashArray(o.fillLineDash));
+            o.fillLineDashOffset && (attrs['stroke-dashoffset'] = o.fillLineDashOffset);
+        }
+        nodes.push(createVNode('path', keyPrefix + i, attrs));
+    }
+    return nodes;
+}
+
+// Gradient in the element's own space, where the sketch lines are. Rough
+// passes are many small paths, so objectBoundingBox units would restart the
+// gradient on every hachure line.
+function setElementGradient(
+    el: Path,
+    gradient: GradientObject,
+    attrs: SVGVNodeAttrs,
+    target: 'fill' | 'stroke',
+    scope: SVGBrushScope
+) {
+    const rect = el.getBoundingRect();
+    const spaceGradient = extend({}, gradient) as GradientObject;
+    if (gradient.type === 'radial') {
+        extend(spaceGradient, getRadialGradientCoords(gradient as RadialGradientObject, rect));
+    }
+    else {
+        extend(spaceGradient, getLinearGradientCoords(gradient as LinearGradientObject, rect));
+    }
+    spaceGradient.global = true;
+    setGradient({ [target]: spaceGradient }, attrs, target, scope);
+}
+
+// Wraps nodes in one group per clip path
+function clipNodes(nodes: SVGVNode[], clipPaths: Path[], key: string, scope: SVGBrushScope): SVGVNode[] {
+    for (let i = 0; i < clipPaths.length; i++) {
+        const attrs: SVGVNodeAttrs = {};
+        setClipPath(clipPaths[i], attrs, scope);
+        nodes = [createVNode('g', key + '-clip' + i, attrs, nodes)];
+    }
+    return nodes;
+}
+
+function createGroupAttrs(el: Displayable) {
+    const attrs: SVGVNodeAttrs = {};
+    const m = el.transform;
+    m && (attrs.transform = getMatrixStr(m));
+    const opacity = el.style.opacity;
+    opacity != null && opacity < 1 && (attrs.opacity = opacity);
+
+    // Same data attributes as zrender's SVG renderer, for server side rendered
+    // charts that are made interactive again on the client
+    const metaData = getElementSSRData(el);
+    if (metaData) {
+        metaData.each(function (val, key) {
+            val != null && (attrs[(META_DATA_PREFIX + key).toLowerCase()] = val + '');
+        });
+        el.isSilent() && (attrs[META_DATA_PREFIX + 'silent'] = 'true');
+    }
+    return attrs;
+}
+
+// zrender's drop shadow filter (not exported by its SVG brush), set on the
+// element group: the sketch casts one shadow, not one per pen stroke
+function setGroupShadow(el: Path, attrs: SVGVNodeAttrs, scope: SVGBrushScope) {
+    const style = el.style;
+    const shadowKey = getShadowKey(el);
+    let shadowId = scope.shadowCache[shadowKey];
+    if (!shadowId) {
+        const [scaleX, scaleY] = el.getGlobalScale();
+        if (!scaleX || !scaleY) {
+            return;
+        }
+        const { color, opacity } = normalizeColor(style.shadowColor);
+        const blur = style.shadowBlur || 0;
+        shadowId = scope.zrId + '-s' + scope.shadowIdx++;
+        scope.defs[shadowId] = createVNode('filter', shadowId, {
+            id: shadowId, x: '-100%', y: '-100%', width: '300%', height: '300%'
+        }, [
+            createVNode('feDropShadow', '', {
+                dx: (style.shadowOffsetX || 0) / scaleX,
+                dy: (style.shadowOffsetY || 0) / scaleY,
+                stdDeviation: blur / 2 / scaleX + ' ' + blur / 2 / scaleY,
+                'flood-color': color,
+                'flood-opacity': opacity
+            })
+        ]);
+        scope.shadowCache[shadowKey] = shadowId;
+    }
+    attrs.filter = getIdURL(shadowId);
+}
+
+// Multiplies the opacity of a group by `alpha`
+function fadeGroup(group: SVGVNode, alpha: number) {
+    fadeAttrs(group.attrs, alpha);
+    return group;
+}
+
+function fadeAttrs(attrs: SVGVNodeAttrs, alpha: number) {
+    const opacity = attrs.opacity;
+    alpha < 1 && (attrs.opacity = (opacity == null ? 1 : +opacity) * alpha);
+}
+
+// Group of nodes in the element's space, moved by (dx, dy) in global
+// coordinates: cut-out shadows and preset passes
+function createOffsetGroup(el: Path, key: string, dx: number, dy: number, opacity: number, children: SVGVNode[]) {
+    const m = el.transform || [1, 0, 0, 1, 0, 0];
+    const attrs: SVGVNodeAttrs = {
+        transform: getMatrixStr([m[0], m[1], m[2], m[3], m[4] + dx, m[5] + dy])
+    };
+    opacity < 1 && (attrs.opacity = opacity);
+    return createVNode('g', key, attrs, children);
+}
+
+// Cut-out shadow: the solid silhouette under the element
+function createCutoutGroup(el: Path, svgPath: string, options: RoughStyleOption, scope: SVGBrushScope) {
+    const shadow = getCutoutShadow(el.style);
+    const drawable = getElementSketch(el, svgPath, getCutoutSketchOptions(options, shadow.color), 1);
+    const opacity = el.style.opacity;
+    const key = el.id + '-cutout';
+    return createOffsetGroup(
+        el, key, shadow.x, shadow.y, opacity == null ? 1 : opacity, drawableToVNodes(drawable, {}, key, scope)
+    );
+}
+
+// Extra preset pass (watercolor wash) under the element
+function createPassGroup(
+    el: Path,
+    svgPath: string,
+    options: RoughStyleOption,
+    paint: SketchPaint,
+    percent: number,
+    index: number,
+    scope: SVGBrushScope
+) {
+    const pass = scope.preset.passes[index];
+    const offset = pass.offset || [0, 0];
+    const drawable = getElementSketch(el, svgPath, getPassSketchOptions(options, pass, index), percent);
+    const key = el.id + '-pass' + index;
+    let nodes = drawableToVNodes(drawable, paint, key + '-', scope, el.style);
+    const revealClips = scope.revealClips;
+    revealClips && revealClips.length && (nodes = clipNodes(nodes, revealClips, key, scope));
+    const opacity = el.style.opacity;
+    return createOffsetGroup(
+        el, key, offset[0], offset[1], (opacity == null ? 1 : opacity) * (pass.opacity == null ? 1 : pass.opacity), nodes
+    );
+}
+
+// Mark of one of the element's states (see states.ts) over or under it
+function createStateMarkGroup(el: Path, svgPath: string, mark: StateMark, index: number, scope: SVGBrushScope) {
+    const key = el.id + '-state' + index;
+    const opacity = el.style.opacity;
+    return createOffsetGroup(
+        el, key, 0, 0, (opacity == null ? 1 : opacity) * mark.opacity,
+        drawableToVNodes(getStateMarkSketch(el, svgPath, mark), {}, key + '-', scope)
+    );
+}
+
+function brushRoughSVGPath(el: Path, scope: SVGBrushScope): SVGVNode {
+    const style = el.style;
+    const strokePercent = style.strokePercent;
+    const percent = strokePercent < 1 ? strokePercent : 1;
+
+    const unchanged = !el.__dirty;
+    const path = updatePathProxy(1, el, true);
+
+    const lod = getElementLod(style, scope);
+    if (lod === 'canvas') {
+        const plainNode = brushSVGPath(el, scope);
+        return plainNode && scope.preset ? setPresetNodeColors(plainNode, scope) : plainNode;
+    }
+
+    const svgPath = getSketchSvgPath(el, path, unchanged);
+    el.__dirty = 0;
+    if (!svgPath) {
+        return;
+    }
+
+    const sketchStyle = getSketchStyle(el, style, scope, lod);
+    const { options, fillGradient, strokeGradient, fillPattern } = sketchStyle;
+    // Translucent colours are sketched opaque and applied to the groups,
+    // see getSketchStyle
+    const [fillAlpha, strokeAlpha] = getSketchAlphas(sketchStyle) || [1, 1];
+    const key = el.id + '';
+    let nodes: SVGVNode[] = [];
+
+    if (fillPattern) {
+        // Patterns without a Rough.js equivalent are tiled inside the sketched outline
+        const outline = getPatternOutline(el, svgPath, options);
+        const patternAttrs: SVGVNodeAttrs = { d: outline.d, stroke: 'none' };
+        outline.fillRule === 'evenodd' && (patternAttrs['fill-rule'] = 'evenodd');
+        setPattern(el, patternAttrs, 'fill', scope);
+        outline.d && nodes.push(createVNode('path', key + '-pattern', patternAttrs));
+    }
+
+    // Gradients are native in SVG: the sketch is drawn in their average
+    // colour, which the gradient then replaces.
+    const paintAttrs: SVGVNodeAttrs = {};
+    const sketchOptions: RoughStyleOption = extend({}, options);
+    if (fillGradient) {
+        sketchOptions.fill = averageGradientColor(fillGradient);
+        setElementGradient(el, fillGradient, paintAttrs, 'fill', scope);
+    }
+    if (strokeGradient) {
+        sketchOptions.stroke = averageGradientColor(strokeGradient);
+        setElementGradient(el, strokeGradient, paintAttrs, 'stroke', scope);
+    }
+    const paint: SketchPaint = {
+        fill: paintAttrs.fill as string,
+        stroke: paintAttrs.stroke as string
+    };
+    const groupAttrs = createGroupAttrs(el);
+    const shadowMode = getShadowMode(style, scope);
+    shadowMode === 'soft' && setGroupShadow(el, groupAttrs, scope);
+    // Cut-out shadow and preset passes are offset in global coordinates, in
+    // groups of their own under the element's. State marks go under or over it.
+    const underlays: SVGVNode[] = [];
+    const overlays: SVGVNode[] = [];
+    shadowMode === 'cutout' && underlays.push(createCutoutGroup(el, svgPath, options, scope));
+    const treatment = getStateTreatment(el, options, scope.preset);
+    if (treatment) {
+        treatment.opacity < 1 && (groupAttrs.opacity = (style.opacity == null ? 1 : style.opacity) * treatment.opacity);
+        for (let i = 0; i < treatment.marks.length; i++) {
+            const mark = treatment.marks[i];
+            mark.opacity > 0 && mark.percent > 0
+                && (mark.under ? underlays : overlays).push(createStateMarkGroup(el, svgPath, mark, i, scope));
+        }
+    }
+    const passes = sketchOptions.fill && !fillPattern && scope.preset && scope.preset.passes;
+    for (let i = 0; passes && i < passes.length; i++) {
+        underlays.push(createPassGroup(el, svgPath, sketchOptions, paint, percent, i, scope));
+    }
+    for (let i = 0; i < underlays.length; i++) {
+        fadeGroup(underlays[i], fillAlpha);
+    }
+    for (let i = 0; i < overlays.length; i++) {
+        fadeGroup(overlays[i], strokeAlpha);
+    }
+    const split = fillAlpha !== strokeAlpha;
+    split || fadeAttrs(groupAttrs, fillAlpha);
+    const withLayers = function (group: SVGVNode) {
+        return underlays.length || overlays.length
+            ? createVNode('g', key + '-layered', {}, underlays.concat(group, overlays))
+            : group;
+    };
+    if (fillPattern && sketchOptions.stroke === 'none') {
+        return withLayers(createVNode('g', key, groupAttrs, nodes));
+    }
+
+    let drawable = getElementSketch(el, svgPath, sketchOptions, percent);
+    const revealClips = scope.revealClips;
+    if (revealClips && revealClips.length) {
+        // Solid fills have no pen order, they are revealed by clipping
+        const solidFill = getSolidFillSets(drawable);
+        if (solidFill.sets.length) {
+            nodes = nodes.concat(clipNodes(drawableToVNodes(solidFill, paint, key + '-f', scope, style), revealClips, key, scope));
+        }
+        drawable = revealDrawable(drawable, createRevealTest(el, revealClips));
+    }
+    if (split) {
+        // The fill and the outline at their own alphas, under one shadow
+        nodes = [
+            fadeGroup(createVNode('g', key + '-fill', {}, nodes.concat(
+                drawableToVNodes(getSketchPart(drawable, 'fill'), paint, key + '-', scope, style)
+            )), fillAlpha),
+            fadeGroup(createVNode('g', key + '-stroke', {}, (
+                drawableToVNodes(getSketchPart(drawable, 'stroke'), paint, key + '-s', scope, style)
+            )), strokeAlpha)
+        ];
+    }
+    else {
+        nodes = nodes.concat(drawableToVNodes(drawable, paint, key + '-', scope, style));
+    }
+
+    return withLayers(createVNode('g', key, groupAttrs, nodes));
+}
+
+function round2(val: number) {
+    return Math.round(val * 100) / 100;
+}
+
+// Hand-drawn text through per-glyph `dy` and `rotate`. In outline mode the
+// fill becomes two pen passes over the glyph outlines.
+function brushHandDrawnText(el: TSpan, node: SVGVNode, scope: SVGBrushScope): SVGVNode {
+    const glyphAttrs = getSVGGlyphAttrs(el.style.text + '', getElementSeed(el, scope.seed, scope.idBase), scope.text);
+    if (!glyphAttrs) {
+        return node;
+    }
+    const attrs = node.attrs;
+    attrs.dy = glyphAttrs.dy;
+    attrs.rotate = glyphAttrs.rotate;
+
+    const fill = attrs.fill;
+    if (!scope.text.outline || fill == null || fill === 'none') {
+        return node;
+    }
+    const children: SVGVNode[] = [];
+    const offsets = glyphAttrs.outline;
+    for (let i = 0; i < 2; i++) {
+        const outlineAttrs = extend({}, attrs);
+        outlineAttrs.fill = 'none';
+        outlineAttrs.stroke = fill;
+        if (attrs['fill-opacity'] != null) {
+            delete outlineAttrs['fill-opacity'];
+            outlineAttrs['stroke-opacity'] = attrs['fill-opacity'];
+        }
+        outlineAttrs['stroke-width'] = round2(Math.max(el.getBoundingRect().height / 14, 0.75));
+        outlineAttrs.x = round2((+attrs.x || 0) + offsets[i * 2]);
+        outlineAttrs.y = round2((+attrs.y || 0) + offsets[i * 2 + 1]);
+        children.push(createVNode('text', node.key + '-outline' + i, outlineAttrs, undefined, node.text));
+    }
+    // A text border stays, without the fill
+    if (attrs.stroke != null && attrs.stroke !== 'none') {
+        attrs.fill = 'none';
+        children.unshift(node);
+    }
+    return createVNode('g', node.key + '-hand', {}, children);
+}
+
+// Image with its sketched frame on top, in the image's space
+function brushImageFrame(el: ZRImage, node: SVGVNode, lod: RoughLodMode, scope: SVGBrushScope): SVGVNode {
+    const option = getImageOption(el.style, scope);
+    if (!option || !option.frame) {
+        return node;
+    }
+    const rect = el.getBoundingRect();
+    const svgPath = getRectSvgPath(rect.x, rect.y, rect.width, rect.height);
+    const drawable = getElementSketch(el, svgPath, getImageSketchOptions(el, el.style, scope, lod), 1);
+    const key = el.id + '';
+    const frameAttrs: SVGVNodeAttrs = {};
+    el.transform && (frameAttrs.transform = getMatrixStr(el.transform));
+    const opacity = el.style.opacity;
+    opacity != null && opacity < 1 && (frameAttrs.opacity = opacity);
+    return createVNode('g', key + '-image', {}, [
+        node,
+        createVNode('g', key + '-frame', frameAttrs, drawableToVNodes(drawable, {}, key + '-frame', scope))
+    ]);
+}
+
+// Preset colours of the nodes zrender brushes itself (text, paths at the
+// 'canvas' level of detail); paint server urls are left as they are
+function setPresetNodeColors(node: SVGVNode, scope: SVGBrushScope) {
+    const attrs = node.attrs;
+    const names = ['fill', 'stroke'];
+    for (let i = 0; i < names.length; i++) {
+        const color = attrs[names[i]];
+        isString(color) && color.indexOf('url(') < 0 && (attrs[names[i]] = getPresetColor(scope.preset, color));
+    }
+    return node;
+}
+
+// CSS zrender's SVG brush writes the text font in
+const FONT_STYLE_PREFIX = 'font: ';
+const FONT_FAMILY_REG = /font-family:([^;]*);/;
+
+// The painter's font family in place of the default one
+function setPainterNodeFont(node: SVGVNode, family: string) {
+    const attrs = node.attrs;
+    const css = attrs.style as string;
+    if (!isString(css)) {
+        return;
+    }
+    attrs.style = css.indexOf(FONT_STYLE_PREFIX) === 0
+        ? FONT_STYLE_PREFIX + getPainterFont(css.slice(FONT_STYLE_PREFIX.length), family)
+        : css.replace(FONT_FAMILY_REG, function (match, fontFamily: string) {
+            return 'font-family:' + getPainterFontFamily(fontFamily, family) + ';';
+        });
+}
+
+/**
+ * Brushes one displayable to a zrender SVG vnode.
+ */
+export function brushRoughSVG(el: Displayable, scope: SVGBrushScope): SVGVNode {
+    if (el instanceof Path) {
+        return brushRoughSVGPath(el, scope);
+    }
+    let node = brushZRSVG(el, scope);
+    node && el instanceof TSpan && scope.preset && setPresetNodeColors(node, scope);
+    node && el instanceof TSpan && scope.fontFamily && setPainterNodeFont(node, scope.fontFamily);
+    if (node && el instanceof TSpan && scope.text && getElementLod(el.style, scope) !== 'canvas') {
+        node = brushHandDrawnText(el, node, scope);
+    }
+    if (node && el instanceof ZRImage) {
+        const lod = getElementLod(el.style, scope);
+        lod !== 'canvas' && (node = brushImageFrame(el, node, lod, scope));
+    }
+    // Text and images have no pen strokes to trace, reveal clips cut them
+    const revealClips = scope.revealClips;
+    return node && revealClips && revealClips.length
+        ? clipNodes([node], revealClips, el.id + '', scope)[0]
+        : node;
+}
@@ -0,0 +1,202 @@
+import { Random } from 'roughjs/bin/math';
+import { extend } from 'zrender/lib/core/util';
+import { getWidth } from 'zrender/lib/contain/text';
+import type { TSpanStyleProps } from 'zrender/lib/graphic/TSpan';
+
+// Hand-drawn text. Every glyph is drawn on its own with a small offset off the
+// baseline, a rotation and a scale, all drawn from the element's stable seed.
+// Glyphs keep their positions within the whole string, measured through
+// zrender's width cache like ECharts' text layout, and are jittered around
+// their own centre, so the text takes exactly the room ECharts measured for
+// it: alignment, rich text and label layout are unaffected.
+
+/**
+ * Text mode of the painter (`text` option). `true` uses the defaults.
+ */
+export interface RoughTextOption {
+    // Largest offset of a glyph off the baseline, in px
+    baseline?: number
+    // Largest rotation of a glyph, in degrees
+    rotation?: number
+    // Largest change of a glyph's size, as a fraction of it
+    scale?: number
+    // Trace glyph outlines twice with a pen instead of filling them
+    outline?: boolean
+}
+
+export type ResolvedRoughTextOption = Required<RoughTextOption>;
+
+const DEFAULT_TEXT_OPTION: ResolvedRoughTextOption = {
+    baseline: 1,
+    rotation: 4,
+    scale: 0.06,
+    outline: false
+};
+
+// Offset between the two pen passes of an outline, in px
+const OUTLINE_OFFSET = 0.6;
+
+export function createRoughTextOption(text: boolean | RoughTextOption): ResolvedRoughTextOption {
+    return text
+        ? extend(extend({}, DEFAULT_TEXT_OPTION), text === true ? null : text)
+        : null;
+}
+
+// A base character with the combining marks that follow it
+const GLYPH_REG = /\P{M}\p{M}*/gu;
+// Scripts whose letters are shaped together (joined, reordered), drawing
+// their glyphs one by one would break them apart
+const SHAPED_SCRIPT_REG = /[\u0590-\u08FF\u0900-\u0DFF\u0F00-\u109F\u1780-\u17FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+
+interface GlyphJitter {
+    dy: number
+    rotation: number
+    scale: number
+    // Offsets of the two outline passes
+    outline: number[]
+}
+
+export interface GlyphLayout {
+    glyphs: string[]
+    // Left edge of each glyph, then the end of the text
+    xs: number[]
+    jitters: GlyphJitter[]
+    x: number
+    y: number
+}
+
+function getGlyphJitters(count: number, seed: number, option: ResolvedRoughTextOption): GlyphJitter[] {
+    const random = new Random(seed);
+    const next = () => random.next() * 2 - 1;
+    const jitters: GlyphJitter[] = [];
+    for (let i = 0; i < count; i++) {
+        jitters.push({
+            dy: next() * option.baseline,
+            rotation: next() * option.rotation * Math.PI / 180,
+            scale: 1 + next() * option.scale,
+            outline: [next(), next(), next(), next()].map(v => v * OUTLINE_OFFSET)
+        });
+    }
+    return jitters;
+}
+
+/**
+ * Glyphs of a text line drawn in `font` and where they go, or null if the
+ * text has to be drawn as a whole.
+ */
+export function layoutGlyphs(
+    text: string,
+    style: TSpanStyleProps,
+    font: string,
+    seed: number,
+    option: ResolvedRoughTextOption
+): GlyphLayout {
+    const glyphs = text.match(GLYPH_REG);
+    if (!glyphs || SHAPED_SCRIPT_REG.test(text)) {
+        return null;
+    }
+    // Prefix widths keep kerning, and the last one is the width of the text
+    const xs: number[] = [];
+    let prefix = '';
+    for (let i = 0; i < glyphs.length; i++) {
+        xs.push(prefix ? getWidth(prefix, font) : 0);
+        prefix += glyphs[i];
+    }
+    const width = getWidth(text, font);
+    xs.push(width);
+
+    const align = style.textAlign;
+    const x = (style.x || 0) - (
+        align === 'center' ? width / 2
+            : align === 'right' || align === 'end' ? width
+            : 0
+    );
+    return {
+        glyphs,
+        xs,
+        jitters: getGlyphJitters(glyphs.length, seed, option),
+        x,
+        y: style.y || 0
+    };
+}
+
+/**
+ * Calls `draw` for every glyph with the context moved to the glyph's centre
+ * on the baseline and jittered. `draw` gets the x of the glyph's left edge,
+ * to be used with `textAlign = 'left'`.
+ */
+export function eachGlyph(
+    ctx: CanvasRenderingContext2D,
+    layout: GlyphLayout,
+    draw: (glyph: string, x: number, jitter: GlyphJitter) => void
+) {
+    const xs = layout.xs;
+    for (let i = 0; i < layout.glyphs.length; i++) {
+        const jitter = layout.jitters[i];
+        const halfWidth = (xs[i + 1] - xs[i]) / 2;
+        ctx.save();
+        ctx.translate(layout.x + xs[i] + halfWidth, layout.y + jitter.dy);
+        ctx.rotate(jitter.rotation);
+        ctx.scale(jitter.scale, jitter.scale);
+        draw(layout.glyphs[i], -halfWidth, jitter);
+        ctx.restore();
+    }
+}
+
+/**
+ * Glyph outlines traced twice, slightly apart, in the current stroke style.
+ */
+export function outlineGlyphs(ctx: CanvasRenderingContext2D, layout: GlyphLayout) {
+    eachGlyph(ctx, layout, function (glyph, x, jitter) {
+        const offsets = jitter.outline;
+        ctx.strokeText(glyph, x + offsets[0], offsets[1]);
+        ctx.strokeText(glyph, x + offsets[2], offsets[3]);
+    });
+}
+
+/**
+ * Pen width of outlines, from the font size.
+ */
+export function getOutlineWidth(ctx: CanvasRenderingContext2D) {
+    return Math.max(ctx.measureText('M').width / 14, 0.75);
+}
+
+/**
+ * How far jittered glyphs can stray from the text box of the given height.
+ */
+export function getTextJitterMargin(height: number, option: ResolvedRoughTextOption) {
+    return option.baseline
+        + height / 2 * (Math.sin(option.rotation * Math.PI / 180) + option.scale)
+        + (option.outline ? OUTLINE_OFFSET + height / 14 : 0);
+}
+
+/**
+ * Per-glyph `dy` (relative, as SVG wants it) and `rotate` attribute values
+ * for the SVG renderer, and the offsets of the two outline passes. SVG has no
+ * per-glyph scale; glyphs rotate about their left baseline point.
+ */
+export function getSVGGlyphAttrs(text: string, seed: number, option: ResolvedRoughTextOption) {
+    const glyphs = text.match(GLYPH_REG);
+    if (!glyphs || SHAPED_SCRIPT_REG.test(text)) {
+        return null;
+    }
+    const jitters = getGlyphJitters(glyphs.length, seed, option);
+    const dy: number[] = [];
+    const rotate: number[] = [];
+    let prevDy = 0;
+    for (let i = 0; i < jitters.length; i++) {
+        dy.push(round(jitters[i].dy - prevDy));
+        rotate.push(round(jitters[i].rotation * 180 / Math.PI));
+        prevDy = jitters[i].dy;
+        // Combining marks follow their base character
+        for (let k = Array.from(glyphs[i]).length; k > 1; k--) {
+            dy.push(0);
+            rotate.push(rotate[rotate.length - 1]);
+        }
+    }
+    return { dy: dy.join(' '), rotate: rotate.join(' '), outline: jitters[0].outline };
+}
+
+function round(val: number) {
+    return Math.round(val * 100) / 100;
+}
@@ -0,0 +1,83 @@
+import { isObject } from 'zrender/lib/core/util';
+
+// Stop-motion "line boil" (`wiggle` painter option). A few times a second the
+// painter moves on to the next of a handful of seeds and redraws, so every
+// sketch is drawn again by a slightly different hand. The frames come from a
+// timer of their own rather than zrender's animation loop: redraws for hover
+// or animations keep the current frame's sketches, and the look changes at a
+// steady, low rate whatever else is painted. Users who ask for reduced motion
+// see the still chart.
+
+export interface RoughWiggleOption {
+    // Frames per second, stop-motion runs at 4 to 8
+    fps?: number
+    // Number of seeds cycled through. Few frames keep their sketches cached,
+    // which makes the boil nearly free after the first round.
+    frames?: number
+}
+
+const DEFAULT_FPS = 6;
+const MAX_FPS = 24;
+const DEFAULT_FRAMES = 3;
+// Seeds of the frames, apart from the base seed and each other
+const FRAME_SEED_STEP = 104729;
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+export function normalizeWiggleOption(wiggle: boolean | RoughWiggleOption): RoughWiggleOption {
+    if (!wiggle) {
+        return null;
+    }
+    const option = isObject(wiggle) ? wiggle : {};
+    return {
+        fps: Math.min(Math.max(option.fps > 0 ? option.fps : DEFAULT_FPS, 1), MAX_FPS),
+        frames: Math.max(Math.round(option.frames) || DEFAULT_FRAMES, 2)
+    };
+}
+
+/**
+ * Base seed of the sketches in a wiggle frame. Frame 0 is the still chart.
+ */
+export function getWiggleSeed(seed: number, frame: number) {
+    return frame ? seed + frame * FRAME_SEED_STEP : seed;
+}
+
+/**
+ * Calls `onFrame` with the next frame at the option's rate, and with frame 0
+ * while the user prefers reduced motion. Without a window (server side
+ * rendering) nothing runs. Returns the function that stops it.
+ */
+export function startWiggle(option: RoughWiggleOption, onFrame: (frame: number) => void): () => void {
+    if (typeof window === 'undefined') {
+        return function () {};
+    }
+    const reducedMotion = window.matchMedia ? window.matchMedia(REDUCED_MOTION_QUERY) : null;
+    let frame = 0;
+    let timer: ReturnType<typeof setInterval> = null;
+
+    function tick() {
+        frame = (frame + 1) % option.frames;
+        onFrame(frame);
+    }
+
+    function update() {
+        const still = reducedMotion && reducedMotion.matches;
+        if (still && timer != null) {
+            clearInterval(timer);
+            timer = null;
+            frame && onFrame(frame = 0);
+        }
+        else if (!still && timer == null) {
+            timer = setInterval(tick, 1000 / option.fps);
+        }
+    }
+
+    update();
+    reducedMotion && reducedMotion.addEventListener && reducedMotion.addEventListener('change', update);
+
+    return function () {
+        timer != null && clearInterval(timer);
+        timer = null;
+        reducedMotion && reducedMotion.removeEventListener && reducedMotion.removeEventListener('change', update);
+    };
+}
@@ -4,4 +4,9 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  // The server side bundle (npm run build:ssr) runs under plain Node, which
+  // cannot resolve zrender's extensionless ESM imports: bundle everything.
+  ssr: {
+    noExternal: true,
+  },
 })